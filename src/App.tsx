@@ -11,8 +11,13 @@ import Bangalore from "./pages/Bangalore";
 import Discover from "./pages/Discover";
 import Dashboard from "./pages/Dashboard";
 import DestinationDetail from "./pages/DestinationDetail";
+import Profile from "./pages/Profile";
+import Backup from "./pages/Backup";
 import NotFound from "./pages/NotFound";
+import { AuthProvider } from "./contexts/AuthContext";
 import { PlanProvider } from "./contexts/PlanContext";
+import { FeedbackProvider } from "./contexts/FeedbackContext";
+import { CheckInProvider } from "./contexts/CheckInContext";
 
 const queryClient = new QueryClient();
 
@@ -21,22 +26,30 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <PlanProvider>
-        <BrowserRouter>
-          <Navigation />
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/tamil-nadu" element={<TamilNadu />} />
-            <Route path="/kerala" element={<Kerala />} />
-            <Route path="/bangalore" element={<Bangalore />} />
-            <Route path="/discover" element={<Discover />} />
-            <Route path="/dashboard" element={<Dashboard />} />
-            <Route path="/destination/:country/:name" element={<DestinationDetail />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </PlanProvider>
+      <AuthProvider>
+        <PlanProvider>
+          <FeedbackProvider>
+            <CheckInProvider>
+              <BrowserRouter>
+                <Navigation />
+                <Routes>
+                  <Route path="/" element={<Index />} />
+                  <Route path="/tamil-nadu" element={<TamilNadu />} />
+                  <Route path="/kerala" element={<Kerala />} />
+                  <Route path="/bangalore" element={<Bangalore />} />
+                  <Route path="/discover" element={<Discover />} />
+                  <Route path="/dashboard" element={<Dashboard />} />
+                  <Route path="/destination/:country/:name" element={<DestinationDetail />} />
+                  <Route path="/profile" element={<Profile />} />
+                  <Route path="/backup" element={<Backup />} />
+                  {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                  <Route path="*" element={<NotFound />} />
+                </Routes>
+              </BrowserRouter>
+            </CheckInProvider>
+          </FeedbackProvider>
+        </PlanProvider>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -1,9 +1,12 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { MapPin, Clock, Heart, Plus, Check } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { MapPin, Clock, Heart, Plus, Check, ChevronDown, ThumbsUp, ThumbsDown, EyeOff } from "lucide-react";
 import { usePlans } from "@/contexts/PlanContext";
+import { useFeedback, type FeedbackValue } from "@/contexts/FeedbackContext";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
+import { getDestinationKey, type MatchExplanation } from "@/lib/recommendations";
 
 interface DestinationCardProps {
   name: string;
@@ -19,6 +22,9 @@ interface DestinationCardProps {
   idealGroupSize?: string;
   groupDescription?: string;
   hideGetGoingPlans?: boolean;
+  matchExplanation?: MatchExplanation;
+  showFeedback?: boolean;
+  checkInId?: string;
 }
 
 export const DestinationCard = ({
@@ -35,9 +41,15 @@ export const DestinationCard = ({
   idealGroupSize,
   groupDescription,
   hideGetGoingPlans = false,
+  matchExplanation,
+  showFeedback = false,
+  checkInId,
 }: DestinationCardProps) => {
   const { addPlan, selectedPlans, updatePlanStatus } = usePlans();
+  const { getFeedback, setFeedback } = useFeedback();
   const { toast } = useToast();
+  const destinationKey = getDestinationKey({ name, country });
+  const currentFeedback = getFeedback(destinationKey);
   const navigate = useNavigate();
 
   const isSelected = selectedPlans.some(
@@ -64,6 +76,7 @@ export const DestinationCard = ({
       bestTime,
       priceRange,
       region: country as "Tamil Nadu" | "Kerala" | "Bangalore",
+      checkInId,
     });
     toast({
       title: "Added to plans!",
@@ -88,6 +101,7 @@ export const DestinationCard = ({
         bestTime,
         priceRange,
         region: country as "Tamil Nadu" | "Kerala" | "Bangalore",
+        checkInId,
       });
       toast({
         title: "Added to plans",
@@ -108,6 +122,24 @@ export const DestinationCard = ({
     navigate("/dashboard?tab=ongoing");
   };
 
+  const handleFeedback = (value: FeedbackValue) => {
+    const next = currentFeedback === value ? null : value;
+    setFeedback(destinationKey, next);
+    if (next === "hidden") {
+      toast({
+        title: "Hidden",
+        description: `${name} won't appear in your recommendations anymore.`,
+      });
+    } else if (next) {
+      toast({
+        title: "Thanks for the feedback",
+        description: next === "like"
+          ? `We'll suggest more places like ${name}.`
+          : `We'll suggest ${name} less often.`,
+      });
+    }
+  };
+
   const safetyColor = {
     high: "#32ba7c",
     medium: "#f1c232",
@@ -285,6 +317,85 @@ export const DestinationCard = ({
           display: inline-block;
         }
 
+        /* Why this match */
+        .destination-why {
+          margin-bottom: 16px;
+          border-top: 1px solid #ececec;
+          padding-top: 10px;
+        }
+        .destination-why-trigger {
+          display: flex;
+          width: 100%;
+          align-items: center;
+          justify-content: space-between;
+          font-size: 0.9rem;
+          font-weight: 600;
+          color: #101828;
+        }
+        .destination-why-trigger svg {
+          transition: transform 0.2s ease;
+        }
+        .destination-why-trigger[data-state="open"] svg {
+          transform: rotate(180deg);
+        }
+        .destination-why-list {
+          list-style: none;
+          margin: 10px 0 0 0;
+          padding: 0;
+          font-size: 0.85rem;
+          color: #475d69;
+        }
+        .destination-why-row {
+          display: flex;
+          justify-content: space-between;
+          gap: 12px;
+          padding: 4px 0;
+        }
+        .destination-why-points {
+          font-weight: 700;
+          white-space: nowrap;
+        }
+        .destination-why-total {
+          border-top: 1px dashed #d0d5dd;
+          margin-top: 4px;
+          padding-top: 6px;
+          color: #101828;
+          font-weight: 600;
+        }
+
+        /* Feedback */
+        .destination-feedback {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          font-size: 0.85rem;
+          color: #6b7280;
+          margin-bottom: 12px;
+        }
+        .destination-feedback-actions {
+          display: inline-flex;
+          gap: 4px;
+        }
+        .destination-feedback-btn {
+          display: inline-flex;
+          align-items: center;
+          justify-content: center;
+          width: 32px;
+          height: 32px;
+          border-radius: 999px;
+          border: 1px solid #ececec;
+          color: #6b7280;
+          transition: background 0.15s ease, color 0.15s ease;
+        }
+        .destination-feedback-btn:hover {
+          background: #f2f4f7;
+        }
+        .destination-feedback-btn[aria-pressed="true"] {
+          background: #101828;
+          border-color: #101828;
+          color: #fff;
+        }
+
         /* Buttons */
         .destination-buttons {
           display: flex;
@@ -357,6 +468,77 @@ export const DestinationCard = ({
             </div>
           </div>
 
+          {matchExplanation && (
+            <Collapsible className="destination-why">
+              <CollapsibleTrigger className="destination-why-trigger">
+                Why this match
+                <ChevronDown style={{ width: 16, height: 16 }} />
+              </CollapsibleTrigger>
+              <CollapsibleContent>
+                <ul className="destination-why-list">
+                  <li className="destination-why-row">
+                    <span>Base match for {name}</span>
+                    <span className="destination-why-points">{matchExplanation.baseMatch}%</span>
+                  </li>
+                  {matchExplanation.bonuses.map((bonus, index) => (
+                    <li key={`${bonus.source}-${bonus.key}-${index}`} className="destination-why-row">
+                      <span>{bonus.reason}</span>
+                      <span
+                        className="destination-why-points"
+                        style={{ color: bonus.points > 0 ? safetyColor.high : safetyColor.low }}
+                      >
+                        {bonus.points > 0 ? `+${bonus.points}` : bonus.points}
+                      </span>
+                    </li>
+                  ))}
+                  <li className="destination-why-row destination-why-total">
+                    <span>
+                      {matchExplanation.rawScore > matchExplanation.score
+                        ? `Total (capped from ${matchExplanation.rawScore})`
+                        : "Total"}
+                    </span>
+                    <span className="destination-why-points">{matchExplanation.score}%</span>
+                  </li>
+                </ul>
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+
+          {showFeedback && (
+            <div className="destination-feedback">
+              <span>Is this for you?</span>
+              <div className="destination-feedback-actions">
+                <button
+                  type="button"
+                  className="destination-feedback-btn"
+                  aria-label={`More like ${name}`}
+                  aria-pressed={currentFeedback === "like"}
+                  onClick={() => handleFeedback("like")}
+                >
+                  <ThumbsUp style={{ width: 14, height: 14 }} />
+                </button>
+                <button
+                  type="button"
+                  className="destination-feedback-btn"
+                  aria-label={`${name} is not for me`}
+                  aria-pressed={currentFeedback === "dislike"}
+                  onClick={() => handleFeedback("dislike")}
+                >
+                  <ThumbsDown style={{ width: 14, height: 14 }} />
+                </button>
+                <button
+                  type="button"
+                  className="destination-feedback-btn"
+                  aria-label={`Hide ${name}`}
+                  aria-pressed={currentFeedback === "hidden"}
+                  onClick={() => handleFeedback("hidden")}
+                >
+                  <EyeOff style={{ width: 14, height: 14 }} />
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="destination-buttons">
             <Button
               className="destination-btn"
@@ -1,95 +1,90 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DestinationCard } from "@/components/DestinationCard";
+import { TripComboCard } from "@/components/TripComboCard";
 import { RefreshCw, ArrowLeft } from "lucide-react";
-import { tamilNaduDestinations, keralaDestinations, bangaloreDestinations } from "@/data/destinations";
-
-interface EmotionData {
-  emotions: string[];
-  description: string;
-  desiredChange: string;
-  groupSize: string;
-}
+import { getRecommendations, getDestinationKey, getIntensity, type RecommendationFeedback } from "@/lib/recommendations";
+import type { EmotionData } from "@/lib/emotionData";
+import { getTripCombos } from "@/lib/tripCombos";
+import { createSeed, nextSeed, parseSeed } from "@/lib/random";
+import { useFeedback } from "@/contexts/FeedbackContext";
+import { usePlans } from "@/contexts/PlanContext";
+import { useCheckIns } from "@/contexts/CheckInContext";
 
 interface DestinationRecommendationsProps {
   emotionData: EmotionData;
   onBack: () => void;
 }
 
-const getAllDestinations = () => [
-  ...tamilNaduDestinations,
-  ...keralaDestinations,
-  ...bangaloreDestinations,
-];
+export const DestinationRecommendations = ({ emotionData, onBack }: DestinationRecommendationsProps) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { getKeysWithFeedback, setFeedback } = useFeedback();
+  const { getPlansByStatus } = usePlans();
+  const { updateCheckInResults } = useCheckIns();
+  // Set when these results came from a saved check-in; plans added here are linked back to it
+  const checkInId = searchParams.get('checkin') ?? undefined;
 
-const getRecommendations = (emotionData: EmotionData) => {
-  const allDestinations = getAllDestinations();
-  
-  // Create a scoring system based on user input
-  const scoredDestinations = allDestinations.map(destination => {
-    let score = destination.matchPercentage;
-    
-    // Adjust score based on desired change
-    if (emotionData.desiredChange === 'peace' && 
-        (destination.emotionalMatch.toLowerCase().includes('peace') || 
-         destination.emotionalMatch.toLowerCase().includes('tranquil'))) {
-      score += 10;
-    }
-    
-    if (emotionData.desiredChange === 'adventure' && 
-        destination.emotionalMatch.toLowerCase().includes('adventurous')) {
-      score += 10;
-    }
-    
-    if (emotionData.desiredChange === 'joy' && 
-        destination.emotionalMatch.toLowerCase().includes('joyful')) {
-      score += 10;
-    }
-    
-    // Adjust score based on group size match
-    if (destination.idealGroupSize === emotionData.groupSize) {
-      score += 5;
-    }
-    
-    // Adjust score based on emotions
-    emotionData.emotions.forEach(emotion => {
-      if (emotion === 'stressed' && destination.emotionalMatch.toLowerCase().includes('peace')) {
-        score += 8;
-      }
-      if (emotion === 'excited' && destination.emotionalMatch.toLowerCase().includes('adventurous')) {
-        score += 8;
-      }
-      if (emotion === 'peaceful' && destination.emotionalMatch.toLowerCase().includes('peace')) {
-        score += 8;
-      }
-    });
-    
-    return { ...destination, matchPercentage: Math.min(100, score) };
+  const getFeedback = (): RecommendationFeedback => ({
+    liked: [...getKeysWithFeedback('like'), ...getPlansByStatus('completed').map(getDestinationKey)],
+    disliked: getKeysWithFeedback('dislike'),
+    hidden: getKeysWithFeedback('hidden'),
   });
-  
-  // Sort by score, then return a random 2–3 suggestions from top matches
-  const sorted = scoredDestinations.sort((a, b) => b.matchPercentage - a.matchPercentage);
 
-  // Take a pool of top matches to ensure quality, then randomly sample 2–3
-  const pool = sorted.slice(0, Math.min(6, sorted.length));
-  const count = Math.min(pool.length, 2 + Math.floor(Math.random() * 2)); // 2 or 3
-  const shuffled = [...pool].sort(() => Math.random() - 0.5);
-  return shuffled.slice(0, count);
-};
-
-export const DestinationRecommendations = ({ emotionData, onBack }: DestinationRecommendationsProps) => {
-  const [recommendations, setRecommendations] = useState(() => getRecommendations(emotionData));
+  const [result, setResult] = useState(() =>
+    getRecommendations(emotionData, parseSeed(searchParams.get('seed')) ?? createSeed(), { feedback: getFeedback() })
+  );
+  const [combos, setCombos] = useState(() => getTripCombos(emotionData, result.seed, getFeedback()));
+  const [mode, setMode] = useState<'single' | 'trips'>('single');
   const [isRefreshing, setIsRefreshing] = useState(false);
+  // Hiding a card takes effect right away; likes and dislikes apply from the next refresh
+  const hiddenKeys = getKeysWithFeedback('hidden');
+  const recommendations = result.destinations.filter(d => !hiddenKeys.includes(getDestinationKey(d)));
+  const { sentiment, topics } = result.textAnalysis;
+  const { excluded } = result;
+  const pickedUpOn = [
+    ...(sentiment.label === 'negative' ? ['a heavy mood'] : []),
+    ...(sentiment.label === 'positive' ? ['an upbeat mood'] : []),
+    ...topics.map(topic => topic.label),
+  ];
+
+  // Keep the seed in the URL so this exact result set can be reproduced later
+  useEffect(() => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      next.set('seed', String(result.seed));
+      return next;
+    }, { replace: true });
+  }, [result.seed, setSearchParams]);
+
+  // Record what this check-in suggested so the mood journal can show and re-open it
+  useEffect(() => {
+    if (checkInId) {
+      updateCheckInResults(checkInId, result.seed, result.destinations.map(getDestinationKey));
+    }
+  }, [checkInId, result, updateCheckInResults]);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
     await new Promise(resolve => setTimeout(resolve, 1000));
-    setRecommendations(getRecommendations(emotionData));
+    const seed = nextSeed(result.seed);
+    const feedback = getFeedback();
+    setResult(getRecommendations(emotionData, seed, { feedback }));
+    setCombos(getTripCombos(emotionData, seed, feedback));
     setIsRefreshing(false);
   };
 
+  // Hidden places were left out of scoring, so re-run the same seed without them hidden
+  const handleShowHidden = () => {
+    hiddenKeys.forEach(key => setFeedback(key, null));
+    const feedback = { ...getFeedback(), hidden: [] };
+    setResult(getRecommendations(emotionData, result.seed, { feedback }));
+    setCombos(getTripCombos(emotionData, result.seed, feedback));
+  };
+
   const getGroupSizeLabel = (value: string) => {
     const options = [
       { value: "solo", label: "Solo Travel" },
@@ -141,7 +136,7 @@ export const DestinationRecommendations = ({ emotionData, onBack }: DestinationR
             <div className="flex flex-wrap gap-1">
               {emotionData.emotions.map(emotion => (
                 <Badge key={emotion} variant="secondary" className="text-xs capitalize">
-                  {emotion}
+                  {emotion} · {getIntensity(emotionData, emotion)}/5
                 </Badge>
               ))}
             </div>
@@ -159,10 +154,28 @@ export const DestinationRecommendations = ({ emotionData, onBack }: DestinationR
             </Badge>
           </div>
         </div>
+        {pickedUpOn.length > 0 && (
+          <div className="mt-4 pt-4 border-t border-border/50">
+            <span className="text-sm text-muted-foreground block mb-2">We picked up on…</span>
+            <div className="flex flex-wrap gap-1">
+              {pickedUpOn.map(signal => (
+                <Badge key={signal} variant="secondary" className="text-xs">
+                  {signal}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
       </Card>
 
       {/* Actions */}
-      <div className="flex justify-center">
+      <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+        <Tabs value={mode} onValueChange={(value) => setMode(value as 'single' | 'trips')}>
+          <TabsList>
+            <TabsTrigger value="single">Single Destinations</TabsTrigger>
+            <TabsTrigger value="trips">Multi-Stop Trips</TabsTrigger>
+          </TabsList>
+        </Tabs>
         <Button 
           variant="outline" 
           onClick={handleRefresh}
@@ -174,12 +187,72 @@ export const DestinationRecommendations = ({ emotionData, onBack }: DestinationR
         </Button>
       </div>
 
+      {hiddenKeys.length > 0 && (
+        <p className="text-center text-sm text-muted-foreground">
+          {hiddenKeys.length} place{hiddenKeys.length > 1 ? 's are' : ' is'} hidden from your suggestions.{" "}
+          <Button variant="link" className="h-auto p-0" onClick={handleShowHidden}>
+            Show {hiddenKeys.length > 1 ? 'them' : 'it'} again
+          </Button>
+        </p>
+      )}
+
       {/* Recommendations Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-        {recommendations.map((destination, index) => (
-          <DestinationCard key={`${destination.name}-${index}`} {...destination} hideGetGoingPlans />
-        ))}
-      </div>
+      {mode === 'trips' ? (
+        combos.length === 0 ? (
+          <Card className="p-8 text-center border-border/50">
+            <p className="text-muted-foreground">
+              No multi-stop trips fit your constraints. Try single destinations or loosen your budget.
+            </p>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {combos.map(combo => (
+              <TripComboCard key={combo.id} combo={combo} checkInId={checkInId} />
+            ))}
+          </div>
+        )
+      ) : result.destinations.length === 0 ? (
+        excluded.hidden > 0 ? (
+          <Card className="p-8 text-center border-border/50">
+            <h3 className="text-xl font-semibold mb-2 text-foreground">You've hidden every place that fits</h3>
+            <p className="text-muted-foreground mb-6">
+              {excluded.hidden} place{excluded.hidden > 1 ? 's' : ''} within your budget and safety level {excluded.hidden > 1 ? 'are' : 'is'} hidden from your suggestions.
+            </p>
+            <Button variant="outline" onClick={handleShowHidden}>
+              Show Hidden Places
+            </Button>
+          </Card>
+        ) : (
+          <Card className="p-8 text-center border-border/50">
+            <h3 className="text-xl font-semibold mb-2 text-foreground">No destinations fit all your constraints</h3>
+            <p className="text-muted-foreground mb-6">
+              {[
+                excluded.budget > 0 && `${excluded.budget} places are above your budget`,
+                excluded.safety > 0 && `${excluded.safety} places are below your minimum safety level`,
+              ].filter(Boolean).join(', ')}. Try a higher budget or a lower safety requirement.
+            </p>
+            <Button variant="outline" onClick={onBack}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Adjust Constraints
+            </Button>
+          </Card>
+        )
+      ) : recommendations.length === 0 ? (
+        <Card className="p-8 text-center border-border/50">
+          <p className="text-muted-foreground mb-6">
+            You've hidden all of these suggestions. Get different suggestions to see more places.
+          </p>
+          <Button variant="outline" onClick={handleShowHidden}>
+            Show Hidden Places
+          </Button>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {recommendations.map((destination, index) => (
+            <DestinationCard key={`${destination.name}-${index}`} {...destination} checkInId={checkInId} hideGetGoingPlans showFeedback />
+          ))}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,11 +1,28 @@
-import { useState } from "react";
+import { useEffect, useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useForm, type FieldErrors } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Smile, Frown, Meh, Heart, Zap, Cloud, Sun, Moon, Users } from "lucide-react";
+import { Form, FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Smile, Frown, Heart, Zap, Cloud, Sun, Moon, Users, Wallet, Shield, CalendarDays } from "lucide-react";
 import { DestinationRecommendations } from "@/components/DestinationRecommendations";
+import { useCheckIns } from "@/contexts/CheckInContext";
+import { MONTH_NAMES } from "@/lib/seasons";
+import { INTENSITY_LABELS } from "@/lib/recommendations";
+import {
+  emotionDataSchema,
+  emotionDataToSearchParams,
+  parseEmotionDataParams,
+  EMOTION_FORM_STEP_FIELDS,
+  type EmotionData,
+  type EmotionId
+} from "@/lib/emotionData";
+import { defaultIntensity } from "@/data/emotionWeights";
 
 const emotionOptions = [
   { id: "stressed", label: "Stressed", icon: Cloud, color: "bg-slate-100 text-slate-700 hover:bg-slate-200" },
@@ -16,63 +33,127 @@ const emotionOptions = [
   { id: "peaceful", label: "Peaceful", icon: Heart, color: "bg-green-100 text-green-700 hover:bg-green-200" },
   { id: "adventurous", label: "Adventurous", icon: Zap, color: "bg-purple-100 text-purple-700 hover:bg-purple-200" },
   { id: "reflective", label: "Reflective", icon: Moon, color: "bg-indigo-100 text-indigo-700 hover:bg-indigo-200" }
-];
+] as const;
 
 const desiredChangeOptions = [
   { id: "joy", label: "Joy & Happiness", description: "Vibrant experiences that uplift your spirit" },
   { id: "peace", label: "Peace & Tranquility", description: "Calming environments for relaxation" },
   { id: "adventure", label: "Adventure & Excitement", description: "Thrilling activities and new challenges" },
   { id: "excitement", label: "Energy & Excitement", description: "Dynamic experiences to boost your energy" }
-];
+] as const;
 
 const groupSizeOptions = [
   { value: "solo", label: "Solo Travel (Just me)" },
   { value: "couple", label: "Couple (2 people)" },
   { value: "small-group", label: "Small Group (3-5 people)" },
   { value: "large-group", label: "Large Group (6+ people)" }
-];
+] as const;
+
+const budgetOptions = [
+  { value: "$", label: "Budget", description: "Up to ~₹2,500 a night" },
+  { value: "$$", label: "Mid-range", description: "Up to ~₹6,000 a night" },
+  { value: "$$$", label: "Premium", description: "No upper limit" }
+] as const;
+
+const safetyOptions = [
+  { value: "low", label: "Any safety level" },
+  { value: "medium", label: "Medium or higher" },
+  { value: "high", label: "High only" }
+] as const;
+
+type FormStep = 1 | 2 | 3;
+
+const parseStep = (value: string | null): FormStep => (value === "2" ? 2 : value === "3" ? 3 : 1);
 
 export const EmotionForm = () => {
-  const [selectedEmotions, setSelectedEmotions] = useState<string[]>([]);
-  const [description, setDescription] = useState("");
-  const [desiredChange, setDesiredChange] = useState("");
-  const [groupSize, setGroupSize] = useState("");
-  const [showSecondStep, setShowSecondStep] = useState(false);
-  const [showRecommendations, setShowRecommendations] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-
-  const handleEmotionToggle = (emotionId: string) => {
-    setSelectedEmotions(prev => 
-      prev.includes(emotionId) 
-        ? prev.filter(id => id !== emotionId)
-        : [...prev, emotionId]
-    );
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { addCheckIn } = useCheckIns();
+  const form = useForm<EmotionData>({
+    resolver: zodResolver(emotionDataSchema),
+    mode: "onChange",
+    defaultValues: {
+      emotions: [],
+      intensities: {},
+      description: "",
+      budget: "$$$",
+      minSafety: "low"
+    }
+  });
+  // The step and submitted answers live in the URL, so reloads, shared links and the back button all work
+  const step = parseStep(searchParams.get("step"));
+  const submittedData = useMemo(() => parseEmotionDataParams(searchParams), [searchParams]);
+
+  const { emotions: selectedEmotions, intensities, desiredChange, groupSize, budget, minSafety, travelMonth } = form.watch();
+
+  // Results opened from a link or a reload: fill in the form so stepping back shows the same answers
+  useEffect(() => {
+    if (submittedData) {
+      form.reset(submittedData);
+    }
+  }, [submittedData, form]);
+
+  // A later step opened without the answers before it (e.g. a bookmarked ?step=3) starts over
+  const isMissingEarlierAnswers = !submittedData && (
+    (step > 1 && selectedEmotions.length === 0) ||
+    (step === 3 && (!desiredChange || !groupSize))
+  );
+
+  useEffect(() => {
+    if (isMissingEarlierAnswers) {
+      setSearchParams({}, { replace: true });
+    }
+  }, [isMissingEarlierAnswers, setSearchParams]);
+
+  const setStep = (next: FormStep) => {
+    setSearchParams(next === 1 ? {} : { step: String(next) });
+  };
+
+  const getIntensity = (emotionId: EmotionId) => intensities?.[emotionId] ?? defaultIntensity;
+
+  const handleEmotionToggle = (emotionId: EmotionId) => {
+    const current = form.getValues("emotions");
+    if (current.includes(emotionId)) {
+      const { [emotionId]: _removed, ...otherIntensities } = form.getValues("intensities") ?? {};
+      form.setValue("emotions", current.filter(id => id !== emotionId), { shouldValidate: true });
+      form.setValue("intensities", otherIntensities);
+    } else {
+      form.setValue("emotions", [...current, emotionId], { shouldValidate: true });
+    }
   };
 
-  const handleNextStep = () => {
-    if (selectedEmotions.length > 0) {
-      setShowSecondStep(true);
+  // Only move on once the fields on the current step are valid
+  const handleNextStep = async (next: FormStep) => {
+    const isStepValid = await form.trigger([...EMOTION_FORM_STEP_FIELDS[step]]);
+    if (isStepValid) {
+      setStep(next);
     }
   };
 
-  const handleBackToFirst = () => {
-    setShowSecondStep(false);
+  // Each step is its own history entry, so stepping back is the same as the browser's back button
+  const handlePreviousStep = () => {
+    navigate(-1);
+  };
+
+  // Description analysis runs locally inside the recommender, so results can show immediately
+  const handleSubmit = (data: EmotionData) => {
+    const params = emotionDataToSearchParams(data);
+    params.set("checkin", addCheckIn(data).id);
+    setSearchParams(params);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setIsSubmitting(true);
-    
-    // Simulate AI processing with enhanced analysis
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    setIsSubmitting(false);
-    setShowRecommendations(true);
+  // Submitting re-validates every step, so send the traveler back to the first one with an error
+  const handleInvalid = (errors: FieldErrors<EmotionData>) => {
+    const invalidStep = ([1, 2, 3] as const).find(formStep =>
+      EMOTION_FORM_STEP_FIELDS[formStep].some(name => errors[name])
+    );
+    if (invalidStep) {
+      setStep(invalidStep);
+    }
   };
 
   const handleBackToForm = () => {
-    setShowRecommendations(false);
-    setShowSecondStep(false);
+    setStep(1);
   };
 
   return (
@@ -88,74 +169,115 @@ export const EmotionForm = () => {
           </p>
         </div>
 
-        {showRecommendations ? (
-          <DestinationRecommendations 
-            emotionData={{
-              emotions: selectedEmotions,
-              description,
-              desiredChange,
-              groupSize
-            }}
+        {submittedData ? (
+          <DestinationRecommendations
+            emotionData={submittedData}
             onBack={handleBackToForm}
           />
         ) : (
           <Card className="p-8 shadow-card bg-card/50 backdrop-blur-sm border-border/50">
-            {!showSecondStep ? (
+            <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit, handleInvalid)}>
+            {step === 1 ? (
             /* Step 1: Emotion Selection */
             <div className="space-y-8">
-              <div>
-                <h3 className="text-2xl font-semibold mb-4 text-foreground">Select Your Current Emotions</h3>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                  {emotionOptions.map((emotion) => {
-                    const Icon = emotion.icon;
-                    const isSelected = selectedEmotions.includes(emotion.id);
-                    
-                    return (
-                      <Button
-                        key={emotion.id}
-                        type="button"
-                        variant="outline"
-                        onClick={() => handleEmotionToggle(emotion.id)}
-                        className={`h-auto py-4 px-4 flex flex-col items-center gap-2 transition-all duration-300 ${
-                          isSelected 
-                            ? 'border-primary bg-primary/10 shadow-soft' 
-                            : 'border-border hover:border-primary/50 hover:shadow-soft'
-                        }`}
-                      >
-                        <Icon className={`w-6 h-6 ${isSelected ? 'text-primary' : 'text-muted-foreground'}`} />
-                        <span className={`text-sm font-medium ${isSelected ? 'text-primary' : 'text-foreground'}`}>
-                          {emotion.label}
-                        </span>
-                      </Button>
-                    );
-                  })}
-                </div>
-              </div>
+              <FormField
+                control={form.control}
+                name="emotions"
+                render={() => (
+                  <FormItem>
+                    <h3 className="text-2xl font-semibold mb-4 text-foreground">Select Your Current Emotions</h3>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                      {emotionOptions.map((emotion) => {
+                        const Icon = emotion.icon;
+                        const isSelected = selectedEmotions.includes(emotion.id);
+
+                        return (
+                          <Button
+                            key={emotion.id}
+                            type="button"
+                            variant="outline"
+                            onClick={() => handleEmotionToggle(emotion.id)}
+                            className={`h-auto py-4 px-4 flex flex-col items-center gap-2 transition-all duration-300 ${
+                              isSelected
+                                ? 'border-primary bg-primary/10 shadow-soft'
+                                : 'border-border hover:border-primary/50 hover:shadow-soft'
+                            }`}
+                          >
+                            <Icon className={`w-6 h-6 ${isSelected ? 'text-primary' : 'text-muted-foreground'}`} />
+                            <span className={`text-sm font-medium ${isSelected ? 'text-primary' : 'text-foreground'}`}>
+                              {emotion.label}
+                            </span>
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
               {/* Description */}
-              <div>
-                <h3 className="text-2xl font-semibold mb-4 text-foreground">Tell Us More</h3>
-                <Textarea
-                  placeholder="Describe how you're feeling and what kind of experience you're looking for... (e.g., 'I'm feeling overwhelmed at work and need a peaceful place to disconnect and recharge')"
-                  value={description}
-                  onChange={(e) => setDescription(e.target.value)}
-                  className="min-h-[120px] resize-none text-foreground placeholder:text-muted-foreground border-border focus:border-primary"
-                />
-              </div>
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <h3 className="text-2xl font-semibold mb-4 text-foreground">Tell Us More</h3>
+                    <FormControl>
+                      <Textarea
+                        placeholder="Describe how you're feeling and what kind of experience you're looking for... (e.g., 'I'm feeling overwhelmed at work and need a peaceful place to disconnect and recharge')"
+                        className="min-h-[120px] resize-none text-foreground placeholder:text-muted-foreground border-border focus:border-primary"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
               {/* Selected Emotions Display */}
               {selectedEmotions.length > 0 && (
                 <div>
-                  <h3 className="text-lg font-medium mb-3 text-foreground">Selected Emotions:</h3>
-                  <div className="flex flex-wrap gap-2">
+                  <h3 className="text-lg font-medium mb-1 text-foreground">Selected Emotions:</h3>
+                  <p className="text-sm text-muted-foreground mb-4">How strongly do you feel each one?</p>
+                  <div className="space-y-5">
                     {selectedEmotions.map(emotionId => {
                       const emotion = emotionOptions.find(e => e.id === emotionId);
                       if (!emotion) return null;
-                      
+
                       return (
-                        <Badge key={emotionId} variant="secondary" className="px-3 py-1">
-                          {emotion.label}
-                        </Badge>
+                        <FormField
+                          key={emotionId}
+                          control={form.control}
+                          name={`intensities.${emotionId}`}
+                          render={({ field }) => {
+                            const intensity = field.value ?? defaultIntensity;
+                            return (
+                              <FormItem className="space-y-2">
+                                <div className="flex items-center justify-between">
+                                  <Badge variant="secondary" className="px-3 py-1">
+                                    {emotion.label}
+                                  </Badge>
+                                  <span className="text-sm text-muted-foreground">
+                                    {INTENSITY_LABELS[intensity - 1]} ({intensity}/5)
+                                  </span>
+                                </div>
+                                <FormControl>
+                                  <Slider
+                                    min={1}
+                                    max={5}
+                                    step={1}
+                                    value={[intensity]}
+                                    onValueChange={([value]) => field.onChange(value)}
+                                    aria-label={`${emotion.label} intensity`}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            );
+                          }}
+                        />
                       );
                     })}
                   </div>
@@ -164,76 +286,217 @@ export const EmotionForm = () => {
 
               {/* Next Button */}
               <div className="text-center">
-                <Button 
+                <Button
                   type="button"
-                  onClick={handleNextStep}
-                  disabled={selectedEmotions.length === 0}
+                  onClick={() => handleNextStep(2)}
                   className="bg-gradient-ocean text-white px-8 py-6 text-lg font-semibold rounded-lg hover:shadow-glow transition-all duration-300 disabled:opacity-50"
                 >
                   Next: What Change Do You Need?
                 </Button>
               </div>
             </div>
-          ) : (
+          ) : step === 2 ? (
             /* Step 2: Desired Change & Group Dynamics */
-            <form onSubmit={handleSubmit} className="space-y-8">
+            <div className="space-y-8">
               {/* Back Button */}
-              <Button 
-                type="button" 
-                variant="outline" 
-                onClick={handleBackToFirst}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handlePreviousStep}
                 className="mb-4"
               >
                 ← Back to Emotions
               </Button>
 
               {/* Desired Change Selection */}
-              <div>
-                <h3 className="text-2xl font-semibold mb-4 text-foreground">What kind of change do you need?</h3>
-                <p className="text-muted-foreground mb-6">Based on your emotional state, what transformation are you seeking?</p>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {desiredChangeOptions.map((option) => (
-                    <Button
-                      key={option.id}
-                      type="button"
-                      variant="outline"
-                      onClick={() => setDesiredChange(option.id)}
-                      className={`h-auto p-6 flex flex-col items-start gap-2 text-left transition-all duration-300 ${
-                        desiredChange === option.id
-                          ? 'border-primary bg-primary/10 shadow-soft' 
-                          : 'border-border hover:border-primary/50 hover:shadow-soft'
-                      }`}
-                    >
-                      <span className={`text-lg font-semibold ${desiredChange === option.id ? 'text-primary' : 'text-foreground'}`}>
-                        {option.label}
-                      </span>
-                      <span className="text-sm text-muted-foreground">
-                        {option.description}
-                      </span>
-                    </Button>
-                  ))}
-                </div>
-              </div>
+              <FormField
+                control={form.control}
+                name="desiredChange"
+                render={({ field }) => (
+                  <FormItem>
+                    <h3 className="text-2xl font-semibold mb-4 text-foreground">What kind of change do you need?</h3>
+                    <p className="text-muted-foreground mb-6">Based on your emotional state, what transformation are you seeking?</p>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {desiredChangeOptions.map((option) => (
+                        <Button
+                          key={option.id}
+                          type="button"
+                          variant="outline"
+                          onClick={() => field.onChange(option.id)}
+                          className={`h-auto p-6 flex flex-col items-start gap-2 text-left transition-all duration-300 ${
+                            field.value === option.id
+                              ? 'border-primary bg-primary/10 shadow-soft'
+                              : 'border-border hover:border-primary/50 hover:shadow-soft'
+                          }`}
+                        >
+                          <span className={`text-lg font-semibold ${field.value === option.id ? 'text-primary' : 'text-foreground'}`}>
+                            {option.label}
+                          </span>
+                          <span className="text-sm text-muted-foreground">
+                            {option.description}
+                          </span>
+                        </Button>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
 
               {/* Group Size Selection */}
-              <div>
-                <h3 className="text-2xl font-semibold mb-4 text-foreground flex items-center gap-2">
-                  <Users className="w-6 h-6" />
-                  How many people are traveling with you?
-                </h3>
-                <p className="text-muted-foreground mb-6">We'll recommend destinations perfect for your group size and social dynamics.</p>
-                <Select value={groupSize} onValueChange={setGroupSize}>
-                  <SelectTrigger className="w-full">
-                    <SelectValue placeholder="Select your group size" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {groupSizeOptions.map((option) => (
-                      <SelectItem key={option.value} value={option.value}>
-                        {option.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+              <FormField
+                control={form.control}
+                name="groupSize"
+                render={({ field }) => (
+                  <FormItem>
+                    <h3 className="text-2xl font-semibold mb-4 text-foreground flex items-center gap-2">
+                      <Users className="w-6 h-6" />
+                      How many people are traveling with you?
+                    </h3>
+                    <p className="text-muted-foreground mb-6">We'll recommend destinations perfect for your group size and social dynamics.</p>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger className="w-full">
+                          <SelectValue placeholder="Select your group size" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {groupSizeOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {/* Next Button */}
+              <div className="text-center">
+                <Button
+                  type="button"
+                  onClick={() => handleNextStep(3)}
+                  className="bg-gradient-ocean text-white px-8 py-6 text-lg font-semibold rounded-lg hover:shadow-glow transition-all duration-300 disabled:opacity-50"
+                >
+                  Next: Budget, Safety & Timing
+                </Button>
+              </div>
+            </div>
+          ) : (
+            /* Step 3: Budget, Safety & Season */
+            <div className="space-y-8">
+              {/* Back Button */}
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handlePreviousStep}
+                className="mb-4"
+              >
+                ← Back to Desired Change
+              </Button>
+
+              {/* Budget Ceiling */}
+              <FormField
+                control={form.control}
+                name="budget"
+                render={({ field }) => (
+                  <FormItem>
+                    <h3 className="text-2xl font-semibold mb-4 text-foreground flex items-center gap-2">
+                      <Wallet className="w-6 h-6" />
+                      What's your budget?
+                    </h3>
+                    <p className="text-muted-foreground mb-6">We'll only suggest places within your price range.</p>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      {budgetOptions.map((option) => (
+                        <Button
+                          key={option.value}
+                          type="button"
+                          variant="outline"
+                          onClick={() => field.onChange(option.value)}
+                          className={`h-auto p-6 flex flex-col items-start gap-2 text-left transition-all duration-300 ${
+                            field.value === option.value
+                              ? 'border-primary bg-primary/10 shadow-soft'
+                              : 'border-border hover:border-primary/50 hover:shadow-soft'
+                          }`}
+                        >
+                          <span className={`text-lg font-semibold ${field.value === option.value ? 'text-primary' : 'text-foreground'}`}>
+                            {option.value} {option.label}
+                          </span>
+                          <span className="text-sm text-muted-foreground">
+                            {option.description}
+                          </span>
+                        </Button>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Minimum Safety */}
+                <FormField
+                  control={form.control}
+                  name="minSafety"
+                  render={({ field }) => (
+                    <FormItem>
+                      <h3 className="text-xl font-semibold mb-4 text-foreground flex items-center gap-2">
+                        <Shield className="w-5 h-5" />
+                        Minimum safety level
+                      </h3>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select a safety level" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {safetyOptions.map((option) => (
+                            <SelectItem key={option.value} value={option.value}>
+                              {option.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Travel Month */}
+                <FormField
+                  control={form.control}
+                  name="travelMonth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <h3 className="text-xl font-semibold mb-4 text-foreground flex items-center gap-2">
+                        <CalendarDays className="w-5 h-5" />
+                        When are you traveling?
+                      </h3>
+                      <Select
+                        value={field.value === undefined ? "any" : String(field.value)}
+                        onValueChange={(value) => field.onChange(value === "any" ? undefined : Number(value))}
+                      >
+                        <FormControl>
+                          <SelectTrigger className="w-full">
+                            <SelectValue placeholder="Select a month" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="any">I'm flexible</SelectItem>
+                          {MONTH_NAMES.map((month, index) => (
+                            <SelectItem key={month} value={String(index)}>
+                              {month}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               {/* Selected Summary */}
@@ -246,7 +509,7 @@ export const EmotionForm = () => {
                       const emotion = emotionOptions.find(e => e.id === emotionId);
                       return emotion ? (
                         <Badge key={emotionId} variant="secondary" className="text-xs">
-                          {emotion.label}
+                          {emotion.label} · {getIntensity(emotionId)}/5
                         </Badge>
                       ) : null;
                     })}
@@ -267,31 +530,32 @@ export const EmotionForm = () => {
                       </Badge>
                     </div>
                   )}
+                  <div className="flex flex-wrap gap-2">
+                    <span className="text-sm text-muted-foreground">Constraints:</span>
+                    <Badge variant="secondary">{budgetOptions.find(o => o.value === budget)?.label}</Badge>
+                    <Badge variant="secondary">{safetyOptions.find(o => o.value === minSafety)?.label}</Badge>
+                    <Badge variant="secondary">{travelMonth === undefined ? "Any month" : MONTH_NAMES[travelMonth]}</Badge>
+                  </div>
                 </div>
               </div>
 
               {/* Submit Button */}
               <div className="text-center">
-                <Button 
-                  type="submit" 
-                  disabled={!desiredChange || !groupSize || isSubmitting}
+                <Button
+                  type="submit"
+                  disabled={form.formState.isSubmitting}
                   className="bg-gradient-ocean text-white px-8 py-6 text-lg font-semibold rounded-lg hover:shadow-glow transition-all duration-300 disabled:opacity-50"
                 >
-                  {isSubmitting ? (
-                    <>
-                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white mr-2" />
-                      Analyzing Your Perfect Match...
-                    </>
-                  ) : (
-                    'Find My Perfect Destination'
-                  )}
+                  Find My Perfect Destination
                 </Button>
               </div>
-            </form>
+            </div>
           )}
+            </form>
+            </Form>
           </Card>
         )}
       </div>
     </section>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,61 @@
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { CalendarPlus, Upload } from "lucide-react";
+import { usePlans } from "@/contexts/PlanContext";
+import { useToast } from "@/hooks/use-toast";
+import { hasDates } from "@/lib/planDates";
+import { exportPlansToICalendar, matchImportedEvents, parseICalendar } from "@/lib/icalendar";
+
+// Bulk export of every dated plan, and re-import of a calendar file to pick up rescheduled trips
+export const ICalendarActions = () => {
+  const { selectedPlans, updatePlanDates } = usePlans();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const datedCount = selectedPlans.filter(hasDates).length;
+
+  const handleExport = () => {
+    const count = exportPlansToICalendar(selectedPlans);
+    toast({ title: "Calendar exported", description: `${count} trip${count > 1 ? 's' : ''} added to the calendar file.` });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const { events, skipped } = parseICalendar(await file.text());
+      const { updates, unchanged, unmatched } = matchImportedEvents(selectedPlans, events);
+      updates.forEach(({ plan, dates }) => updatePlanDates(plan.id, dates));
+      const notMatched = unmatched > 0 ? ` ${unmatched} event${unmatched > 1 ? 's' : ''} didn't match any of your plans.` : '';
+      const badDates = skipped > 0 ? ` ${skipped} event${skipped > 1 ? 's' : ''} skipped because of invalid dates.` : '';
+      toast({
+        title: updates.length > 0 ? `Updated ${updates.length} trip${updates.length > 1 ? 's' : ''}` : "No changes",
+        description: `${unchanged} already up to date.${notMatched}${badDates}`,
+      });
+    } catch {
+      toast({ title: "Couldn't read that file", description: "Choose an .ics calendar file.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Button variant="outline" onClick={handleExport} disabled={datedCount === 0} title={datedCount === 0 ? "Add dates to a plan to export it" : undefined}>
+        <CalendarPlus className="w-4 h-4 mr-2" />
+        Export Calendar
+      </Button>
+      <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+        <Upload className="w-4 h-4 mr-2" />
+        Import
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".ics,text/calendar"
+        className="hidden"
+        onChange={event => {
+          const file = event.target.files?.[0];
+          if (file) handleImport(file);
+          // Allows the same file to be imported again after editing it
+          event.target.value = "";
+        }}
+      />
+    </div>
+  );
+};
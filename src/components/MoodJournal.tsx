@@ -0,0 +1,147 @@
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { BookOpen, Heart, MapPin, RotateCcw, Trash2 } from "lucide-react";
+import { useCheckIns, type CheckIn } from "@/contexts/CheckInContext";
+import { usePlans } from "@/contexts/PlanContext";
+import { useToast } from "@/hooks/use-toast";
+import { emotionDataToSearchParams } from "@/lib/emotionData";
+import { getAllDestinations, getDestinationKey, getIntensity } from "@/lib/recommendations";
+
+const formatCheckInDate = (createdAt: string) =>
+  new Date(createdAt).toLocaleString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+
+const getDestinationName = (destinationKey: string) =>
+  getAllDestinations().find(destination => getDestinationKey(destination) === destinationKey)?.name ?? destinationKey;
+
+export const MoodJournal = () => {
+  const { checkIns, removeCheckIn } = useCheckIns();
+  const { selectedPlans } = usePlans();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  // Opens the same answers and seed on the home page, which renders the results straight from the URL
+  const handleReopen = (checkIn: CheckIn) => {
+    const params = emotionDataToSearchParams(checkIn.answers);
+    if (checkIn.seed !== undefined) params.set("seed", String(checkIn.seed));
+    params.set("checkin", checkIn.id);
+    navigate(`/?${params}`);
+  };
+
+  const handleRemove = (checkIn: CheckIn) => {
+    removeCheckIn(checkIn.id);
+    toast({
+      title: "Check-in removed",
+      description: `Your check-in from ${formatCheckInDate(checkIn.createdAt)} was removed from your journal.`,
+    });
+  };
+
+  if (checkIns.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <BookOpen className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+        <p className="text-muted-foreground">No check-ins yet</p>
+        <p className="text-sm text-muted-foreground mt-2">
+          Tell us how you're feeling and your check-ins will be collected here.
+        </p>
+        <Button className="mt-6" onClick={() => navigate("/")}>
+          <Heart className="w-4 h-4 mr-2" />
+          Check In Now
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {checkIns.map(checkIn => {
+        const { answers } = checkIn;
+        const linkedPlans = selectedPlans.filter(plan => plan.checkInId === checkIn.id);
+
+        return (
+          <Card key={checkIn.id}>
+            <CardHeader className="pb-3">
+              <div className="flex items-start justify-between gap-4">
+                <CardTitle className="text-lg">{formatCheckInDate(checkIn.createdAt)}</CardTitle>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => handleReopen(checkIn)}>
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Re-open
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleRemove(checkIn)}
+                    aria-label="Remove check-in"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap items-center gap-2">
+                {answers.emotions.map(emotion => (
+                  <Badge key={emotion} variant="secondary" className="capitalize">
+                    {emotion} · {getIntensity(answers, emotion)}/5
+                  </Badge>
+                ))}
+                <span className="text-sm text-muted-foreground">
+                  seeking <span className="font-medium text-foreground">{answers.desiredChange}</span>
+                </span>
+              </div>
+
+              {answers.description && (
+                <p className="text-sm text-muted-foreground italic">"{answers.description}"</p>
+              )}
+
+              {checkIn.recommendations.length > 0 && (
+                <div>
+                  <span className="text-sm text-muted-foreground block mb-2">Suggested:</span>
+                  <div className="flex flex-wrap gap-2">
+                    {checkIn.recommendations.map(destinationKey => (
+                      <Badge key={destinationKey} variant="outline">
+                        {getDestinationName(destinationKey)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <span className="text-sm text-muted-foreground block mb-2">Plans from this check-in:</span>
+                {linkedPlans.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">None yet</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {linkedPlans.map(plan => (
+                      <li key={plan.id} className="flex items-center gap-2 text-sm">
+                        <MapPin className="w-4 h-4 text-muted-foreground" />
+                        <button
+                          type="button"
+                          className="font-medium hover:underline"
+                          onClick={() => navigate(`/destination/${encodeURIComponent(plan.region)}/${encodeURIComponent(plan.name)}`)}
+                        >
+                          {plan.name}
+                        </button>
+                        <Badge variant="outline" className="capitalize">{plan.status}</Badge>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Menu, X, Home, MapPin, Mountain, Waves, Building, LayoutDashboard, Compass } from "lucide-react";
+import { Menu, X, Home, MapPin, Mountain, Waves, Building, LayoutDashboard, Compass, User } from "lucide-react";
 
 const navItems = [
   { path: "/", label: "Home", icon: Home },
@@ -9,7 +9,8 @@ const navItems = [
   { path: "/kerala", label: "Kerala", icon: Waves },
   { path: "/bangalore", label: "Bangalore", icon: Building },
   { path: "/discover", label: "Discover", icon: Compass },
-  { path: "/dashboard", label: "Dashboard", icon: LayoutDashboard }
+  { path: "/dashboard", label: "Dashboard", icon: LayoutDashboard },
+  { path: "/profile", label: "Profile", icon: User }
 ];
 
 // Named export - make sure you're importing it as { Navigation }
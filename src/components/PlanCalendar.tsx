@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  addMonths,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CalendarDays, ChevronLeft, ChevronRight, List, Sun } from "lucide-react";
+import { usePlans, type SelectedPlan } from "@/contexts/PlanContext";
+import { useToast } from "@/hooks/use-toast";
+import { isInSeason } from "@/lib/seasons";
+import {
+  coversDate,
+  formatPlanDates,
+  fromPlanDate,
+  getSeasonFit,
+  hasDates,
+  shiftPlanDates,
+  toPlanDate,
+  type DatedPlan,
+  type SeasonFit,
+} from "@/lib/planDates";
+
+interface PlanCalendarProps {
+  getStatusColor: (status: string) => string;
+}
+
+// The plan being dragged, and the day it was picked up from (none for a plan without dates yet)
+interface DragState {
+  plan: SelectedPlan;
+  grabDate: string | null;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const seasonFitBadges: Record<SeasonFit, { label: string; className: string }> = {
+  'in-season': { label: "Best time to visit", className: "bg-green-500/20 text-green-700 border-green-500/30" },
+  partly: { label: "Partly in season", className: "bg-amber-500/20 text-amber-700 border-amber-500/30" },
+  'off-season': { label: "Off season", className: "bg-gray-500/20 text-gray-700 border-gray-500/30" },
+};
+
+export const PlanCalendar = ({ getStatusColor }: PlanCalendarProps) => {
+  const { selectedPlans, updatePlanDates } = usePlans();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [mode, setMode] = useState<"month" | "agenda">("month");
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [dragging, setDragging] = useState<DragState | null>(null);
+
+  const today = toPlanDate(new Date());
+  const datedPlans = selectedPlans
+    .filter(hasDates)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const unscheduledPlans = selectedPlans.filter(plan => !hasDates(plan) && plan.status !== 'completed');
+  const days = eachDayOfInterval({ start: startOfWeek(startOfMonth(month)), end: endOfWeek(endOfMonth(month)) });
+
+  const openPlan = (plan: SelectedPlan) =>
+    navigate(`/destination/${encodeURIComponent(plan.region)}/${encodeURIComponent(plan.name)}`, { state: { destination: plan } });
+
+  // Dropping keeps the day that was grabbed under the cursor, so the whole trip moves with it;
+  // a plan without dates becomes a one-day trip on the day it is dropped
+  const handleDrop = (day: Date) => {
+    if (!dragging) return;
+    const { plan, grabDate } = dragging;
+    setDragging(null);
+    const dropDate = toPlanDate(day);
+    const dates = hasDates(plan) && grabDate
+      ? shiftPlanDates(plan, differenceInCalendarDays(day, fromPlanDate(grabDate)))
+      : { startDate: dropDate, endDate: dropDate };
+    if (hasDates(plan) && dates.startDate === plan.startDate) return;
+
+    updatePlanDates(plan.id, dates);
+    const fit = getSeasonFit(plan.bestTime, dates);
+    toast({
+      title: `${plan.name} rescheduled`,
+      description: fit === 'in-season'
+        ? `${formatPlanDates(dates)} is a great time to visit.`
+        : `${formatPlanDates(dates)} is ${fit === 'partly' ? 'partly ' : ''}outside the best time to visit (${plan.bestTime}).`,
+    });
+  };
+
+  // A render function rather than a component, so re-rendering on drag start keeps the dragged element
+  const renderPlanChip = (plan: SelectedPlan, date: string | null) => {
+    const inSeason = date ? isInSeason(plan.bestTime, fromPlanDate(date).getMonth()) : true;
+    return (
+      <button
+        key={plan.id}
+        type="button"
+        draggable
+        onDragStart={event => {
+          event.dataTransfer.effectAllowed = "move";
+          event.dataTransfer.setData("text/plain", plan.id);
+          setDragging({ plan, grabDate: date });
+        }}
+        onDragEnd={() => setDragging(null)}
+        onClick={() => openPlan(plan)}
+        title={`${plan.name}: ${inSeason ? 'good time to visit' : `off season (best ${plan.bestTime})`}`}
+        className={`w-full flex items-center gap-1 rounded border px-1.5 py-0.5 text-left text-xs font-medium truncate cursor-grab ${getStatusColor(plan.status)} ${
+          inSeason ? '' : 'border-dashed opacity-70'
+        }`}
+      >
+        {inSeason && date && <Sun className="w-3 h-3 flex-shrink-0" />}
+        <span className="truncate">{plan.name}</span>
+      </button>
+    );
+  };
+
+  // While dragging, each day shows whether the dragged destination is in season then
+  const getDayBackground = (day: Date) => {
+    if (!dragging) return 'bg-background';
+    return isInSeason(dragging.plan.bestTime, day.getMonth()) ? 'bg-green-50' : 'bg-red-50';
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 space-y-0">
+        <CardTitle className="flex items-center">
+          <CalendarDays className="w-5 h-5 mr-2" />
+          Travel Calendar
+        </CardTitle>
+        <div className="flex items-center gap-2">
+          {mode === "month" && (
+            <>
+              <Button size="icon" variant="outline" onClick={() => setMonth(prev => addMonths(prev, -1))} aria-label="Previous month">
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" onClick={() => setMonth(startOfMonth(new Date()))}>
+                {format(month, "MMMM yyyy")}
+              </Button>
+              <Button size="icon" variant="outline" onClick={() => setMonth(prev => addMonths(prev, 1))} aria-label="Next month">
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+          <ToggleGroup
+            type="single"
+            value={mode}
+            onValueChange={value => value && setMode(value as "month" | "agenda")}
+            variant="outline"
+          >
+            <ToggleGroupItem value="month" aria-label="Month view">
+              <CalendarDays className="w-4 h-4" />
+            </ToggleGroupItem>
+            <ToggleGroupItem value="agenda" aria-label="Agenda view">
+              <List className="w-4 h-4" />
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {mode === "month" ? (
+          <>
+            <div className="grid grid-cols-7 gap-px rounded-lg overflow-hidden border bg-border">
+              {WEEKDAYS.map(weekday => (
+                <div key={weekday} className="bg-muted/50 py-2 text-center text-xs font-semibold text-muted-foreground">
+                  {weekday}
+                </div>
+              ))}
+              {days.map(day => {
+                const date = toPlanDate(day);
+                const plansOnDay = datedPlans.filter(plan => coversDate(plan, date));
+                return (
+                  <div
+                    key={date}
+                    onDragOver={event => {
+                      if (!dragging) return;
+                      event.preventDefault();
+                      event.dataTransfer.dropEffect = "move";
+                    }}
+                    onDrop={event => {
+                      event.preventDefault();
+                      handleDrop(day);
+                    }}
+                    className={`min-h-[96px] p-1.5 space-y-1 ${getDayBackground(day)} ${
+                      isSameMonth(day, month) ? '' : 'text-muted-foreground/60'
+                    }`}
+                  >
+                    <div className={`text-xs font-medium ${date === today ? 'inline-flex w-6 h-6 items-center justify-center rounded-full bg-primary text-primary-foreground' : ''}`}>
+                      {format(day, "d")}
+                    </div>
+                    {plansOnDay.map(plan => renderPlanChip(plan, date))}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <Sun className="w-3 h-3" /> Best time to visit
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="inline-block w-4 h-3 rounded border border-dashed border-muted-foreground" /> Off season
+              </span>
+              <span>Drag a plan to another day to reschedule it.</span>
+            </div>
+
+            {unscheduledPlans.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-foreground mb-2">Not scheduled yet</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                  {unscheduledPlans.map(plan => renderPlanChip(plan, null))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">Drop one onto a day to plan when you'll go.</p>
+              </div>
+            )}
+          </>
+        ) : datedPlans.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CalendarDays className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No dated plans yet</p>
+            <p className="text-sm">Add travel dates to your plans to see them here</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {Object.entries(
+              datedPlans.reduce<Record<string, DatedPlan[]>>((groups, plan) => {
+                const key = format(fromPlanDate(plan.startDate), "MMMM yyyy");
+                groups[key] = [...(groups[key] ?? []), plan];
+                return groups;
+              }, {})
+            ).map(([monthLabel, plans]) => (
+              <div key={monthLabel}>
+                <h4 className="text-sm font-semibold text-muted-foreground mb-2">{monthLabel}</h4>
+                <div className="space-y-2">
+                  {plans.map(plan => {
+                    const fit = seasonFitBadges[getSeasonFit(plan.bestTime, plan)];
+                    return (
+                      <button
+                        key={plan.id}
+                        type="button"
+                        onClick={() => openPlan(plan)}
+                        className={`w-full flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-lg bg-muted/30 hover:bg-muted/50 text-left transition-colors ${
+                          plan.endDate < today ? 'opacity-60' : ''
+                        }`}
+                      >
+                        <div className="w-40 flex-shrink-0 text-sm font-medium">{formatPlanDates(plan)}</div>
+                        <div className="flex-1">
+                          <div className="font-medium text-foreground">{plan.name}</div>
+                          <div className="text-xs text-muted-foreground">{plan.region} · best {plan.bestTime}</div>
+                        </div>
+                        <div className="flex gap-2">
+                          <Badge className={fit.className}>{fit.label}</Badge>
+                          <Badge className={getStatusColor(plan.status)}>{plan.status}</Badge>
+                        </div>
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
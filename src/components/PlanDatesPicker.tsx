@@ -0,0 +1,96 @@
+import { useState } from "react";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertTriangle, CalendarDays } from "lucide-react";
+import { usePlans, type SelectedPlan } from "@/contexts/PlanContext";
+import {
+  formatPlanDates,
+  fromPlanDate,
+  getOverlappingPlans,
+  getTripLength,
+  hasDates,
+  toPlanDate,
+} from "@/lib/planDates";
+
+interface PlanDatesPickerProps {
+  plan: SelectedPlan;
+  numberOfMonths?: number;
+}
+
+const toRange = (plan: SelectedPlan): DateRange | undefined =>
+  hasDates(plan) ? { from: fromPlanDate(plan.startDate), to: fromPlanDate(plan.endDate) } : undefined;
+
+export const PlanDatesPicker = ({ plan, numberOfMonths = 1 }: PlanDatesPickerProps) => {
+  const { selectedPlans, updatePlanDates } = usePlans();
+  const [open, setOpen] = useState(false);
+  // Picks stay local until saved, so choosing the start date doesn't save a one-day trip
+  const [draft, setDraft] = useState<DateRange | undefined>(() => toRange(plan));
+  const overlaps = getOverlappingPlans(plan, selectedPlans);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) setDraft(toRange(plan));
+    setOpen(nextOpen);
+  };
+
+  const handleSave = () => {
+    if (!draft?.from) return;
+    updatePlanDates(plan.id, { startDate: toPlanDate(draft.from), endDate: toPlanDate(draft.to ?? draft.from) });
+    setOpen(false);
+  };
+
+  const handleClear = () => {
+    updatePlanDates(plan.id, null);
+    setOpen(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="w-full justify-start text-left font-normal">
+            <CalendarDays className="w-4 h-4 mr-2" />
+            {hasDates(plan) ? (
+              <span>
+                {formatPlanDates(plan)}
+                <span className="text-muted-foreground"> · {getTripLength(plan)} day{getTripLength(plan) > 1 ? 's' : ''}</span>
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Add travel dates</span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="range"
+            selected={draft}
+            onSelect={setDraft}
+            defaultMonth={draft?.from}
+            numberOfMonths={numberOfMonths}
+            initialFocus
+          />
+          <div className="flex justify-end gap-2 p-3 border-t">
+            {hasDates(plan) && (
+              <Button size="sm" variant="ghost" onClick={handleClear}>
+                Clear
+              </Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={!draft?.from}>
+              Save Dates
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {overlaps.length > 0 && (
+        <p className="flex items-start gap-2 text-xs text-amber-700">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <span>
+            Overlaps with {overlaps.map(other => `${other.name} (${formatPlanDates(other)})`).join(', ')}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import { Badge } from "@/components/ui/badge";
+import { Star } from "lucide-react";
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import { useCheckIns } from "@/contexts/CheckInContext";
+import { compareWithCheckIn, describeGoalOutcome, type GoalVerdict } from "@/lib/reflection";
+
+const verdictStyles: Record<GoalVerdict, { label: string; className: string }> = {
+  met: { label: "Goal met", className: "bg-green-500/20 text-green-700 border-green-500/30" },
+  partly: { label: "Partly met", className: "bg-amber-500/20 text-amber-700 border-amber-500/30" },
+  "not-met": { label: "Goal not met", className: "bg-gray-500/20 text-gray-700 border-gray-500/30" },
+};
+
+interface ReflectionSummaryProps {
+  plan: SelectedPlan;
+  compact?: boolean;
+}
+
+export const ReflectionSummary = ({ plan, compact = false }: ReflectionSummaryProps) => {
+  const { getCheckIn } = useCheckIns();
+  if (!plan.reflection) return null;
+
+  const { reflection } = plan;
+  const outcome = compareWithCheckIn(reflection, plan.checkInId ? getCheckIn(plan.checkInId) : undefined);
+  const verdict = verdictStyles[outcome.verdict];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <Badge className={verdict.className}>{verdict.label}</Badge>
+        <span className="flex" aria-label={`Rated ${reflection.rating} out of 5`}>
+          {[1, 2, 3, 4, 5].map(value => (
+            <Star
+              key={value}
+              className={`w-4 h-4 ${reflection.rating >= value ? 'text-yellow-500 fill-current' : 'text-muted-foreground'}`}
+            />
+          ))}
+        </span>
+      </div>
+      <p className="text-xs text-muted-foreground">{describeGoalOutcome(outcome)}</p>
+      {!compact && reflection.notes && (
+        <p className="text-sm text-muted-foreground italic">"{reflection.notes}"</p>
+      )}
+    </div>
+  );
+};
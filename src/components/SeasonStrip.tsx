@@ -0,0 +1,41 @@
+import { MONTH_NAMES, getBestMonths, monthsUntilInSeason } from "@/lib/seasons";
+
+interface SeasonStripProps {
+  bestTime: string;
+  month?: number;
+}
+
+export const SeasonStrip = ({ bestTime, month = new Date().getMonth() }: SeasonStripProps) => {
+  const bestMonths = getBestMonths(bestTime);
+
+  if (!bestMonths) {
+    return <p className="text-sm text-muted-foreground">Best time to visit: {bestTime}</p>;
+  }
+
+  const wait = monthsUntilInSeason(bestTime, month);
+  const status = wait === 0
+    ? `${MONTH_NAMES[month]} is a great time to visit`
+    : `Best from ${MONTH_NAMES[(month + wait) % 12]} (in ${wait} month${wait === 1 ? '' : 's'})`;
+
+  return (
+    <div>
+      <div className="grid grid-cols-12 gap-1" role="list" aria-label={`Best months to visit: ${bestTime}`}>
+        {MONTH_NAMES.map((name, index) => (
+          <div
+            key={name}
+            role="listitem"
+            title={`${name}: ${bestMonths.months[index] ? 'good time to visit' : 'off season'}`}
+            className={`h-8 rounded flex items-center justify-center text-[10px] font-semibold ${
+              bestMonths.months[index] ? 'bg-green-500/80 text-white' : 'bg-muted text-muted-foreground'
+            } ${index === month ? 'ring-2 ring-primary ring-offset-1' : ''}`}
+          >
+            {name.charAt(0)}
+          </div>
+        ))}
+      </div>
+      <p className={`text-sm mt-2 ${wait === 0 ? 'text-green-600 font-medium' : 'text-muted-foreground'}`}>
+        {status}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,30 @@
+import { Button } from "@/components/ui/button";
+import { CalendarClock } from "lucide-react";
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import { getStatusSuggestion } from "@/lib/planDates";
+
+interface StatusSuggestionBannerProps {
+  plan: SelectedPlan;
+  onAccept: (status: SelectedPlan['status']) => void;
+  onDismiss: () => void;
+}
+
+export const StatusSuggestionBanner = ({ plan, onAccept, onDismiss }: StatusSuggestionBannerProps) => {
+  const suggestion = getStatusSuggestion(plan);
+  if (!suggestion) return null;
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-4 rounded-lg border border-blue-200 bg-blue-50">
+      <CalendarClock className="w-5 h-5 text-blue-600 flex-shrink-0" />
+      <p className="flex-1 text-sm text-blue-800">{suggestion.message}</p>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => onAccept(suggestion.status)}>
+          {suggestion.status === 'ongoing' ? 'Start Journey' : 'Mark Completed'}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onDismiss}>
+          Not now
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,182 @@
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { BarChart3, CheckCircle, Heart, MapPin, Wallet } from "lucide-react";
+import { useCheckIns } from "@/contexts/CheckInContext";
+import { usePlans } from "@/contexts/PlanContext";
+import { EMOTION_IDS } from "@/lib/emotionData";
+import {
+  getCompletionRateByMonth,
+  getEmotionTrend,
+  getPlansByRegionAndStatus,
+  getPriceRangeDistribution,
+  PLAN_STATUSES,
+} from "@/lib/travelStats";
+
+// Same hues as the emotion buttons in EmotionForm
+const emotionChartConfig = {
+  stressed: { label: "Stressed", color: "#64748b" },
+  joyful: { label: "Joyful", color: "#eab308" },
+  sad: { label: "Sad", color: "#3b82f6" },
+  burnout: { label: "Burned Out", color: "#ef4444" },
+  excited: { label: "Excited", color: "#f97316" },
+  peaceful: { label: "Peaceful", color: "#22c55e" },
+  adventurous: { label: "Adventurous", color: "#a855f7" },
+  reflective: { label: "Reflective", color: "#6366f1" },
+} satisfies ChartConfig;
+
+// Same hues as the Dashboard status badges
+const statusChartConfig = {
+  selected: { label: "Selected", color: "#3b82f6" },
+  ongoing: { label: "Ongoing", color: "#f59e0b" },
+  completed: { label: "Completed", color: "#22c55e" },
+} satisfies ChartConfig;
+
+const priceChartConfig = {
+  count: { label: "Plans" },
+  "$": { label: "$ Budget", color: "#22c55e" },
+  "$$": { label: "$$ Mid-range", color: "#0ea5e9" },
+  "$$$": { label: "$$$ Premium", color: "#a855f7" },
+} satisfies ChartConfig;
+
+const completionChartConfig = {
+  rate: { label: "Completed (%)", color: "#22c55e" },
+} satisfies ChartConfig;
+
+const EmptyChart = ({ message }: { message: string }) => (
+  <div className="h-[250px] flex items-center justify-center text-center text-sm text-muted-foreground px-6">
+    {message}
+  </div>
+);
+
+export const TravelInsights = () => {
+  const { checkIns } = useCheckIns();
+  const { selectedPlans } = usePlans();
+
+  const emotionTrend = getEmotionTrend(checkIns);
+  const feltEmotions = EMOTION_IDS.filter(emotion => emotionTrend.some(point => point[emotion] > 0));
+  const regionStatus = getPlansByRegionAndStatus(selectedPlans);
+  const priceDistribution = getPriceRangeDistribution(selectedPlans).filter(entry => entry.count > 0);
+  const completionRate = getCompletionRateByMonth(selectedPlans);
+
+  return (
+    <div>
+      <h2 className="text-2xl font-bold mb-6 flex items-center">
+        <BarChart3 className="w-6 h-6 mr-2" />
+        Travel & Mood Insights
+      </h2>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Heart className="w-5 h-5 mr-2" />
+              Your Moods Over Time
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {emotionTrend.length === 0 ? (
+              <EmptyChart message="Check in with how you're feeling to start tracking your moods." />
+            ) : (
+              <ChartContainer config={emotionChartConfig} className="aspect-auto h-[250px] w-full">
+                <BarChart data={emotionTrend}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {feltEmotions.map(emotion => (
+                    <Bar key={emotion} dataKey={emotion} stackId="emotions" fill={`var(--color-${emotion})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <MapPin className="w-5 h-5 mr-2" />
+              Plans by Region
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {selectedPlans.length === 0 ? (
+              <EmptyChart message="Add destinations to your plans to see where you're headed." />
+            ) : (
+              <ChartContainer config={statusChartConfig} className="aspect-auto h-[250px] w-full">
+                <BarChart data={regionStatus}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="region" tickLine={false} axisLine={false} />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={24} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  {PLAN_STATUSES.map(status => (
+                    <Bar key={status} dataKey={status} stackId="status" fill={`var(--color-${status})`} />
+                  ))}
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Wallet className="w-5 h-5 mr-2" />
+              Spend Level
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {priceDistribution.length === 0 ? (
+              <EmptyChart message="Your plans' price ranges will show up here." />
+            ) : (
+              <ChartContainer config={priceChartConfig} className="aspect-auto h-[250px] w-full">
+                <PieChart>
+                  <ChartTooltip content={<ChartTooltipContent nameKey="priceRange" hideLabel />} />
+                  <Pie data={priceDistribution} dataKey="count" nameKey="priceRange" innerRadius={50}>
+                    {priceDistribution.map(entry => (
+                      <Cell key={entry.priceRange} fill={priceChartConfig[entry.priceRange].color} />
+                    ))}
+                  </Pie>
+                  <ChartLegend content={<ChartLegendContent nameKey="priceRange" />} />
+                </PieChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <CheckCircle className="w-5 h-5 mr-2" />
+              Completion Rate
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {completionRate.length === 0 ? (
+              <EmptyChart message="Add and complete journeys to track your progress month by month." />
+            ) : (
+              <ChartContainer config={completionChartConfig} className="aspect-auto h-[250px] w-full">
+                <LineChart data={completionRate}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="month" tickLine={false} axisLine={false} />
+                  <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={32} unit="%" />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="rate" type="monotone" stroke="var(--color-rate)" strokeWidth={2} dot />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowRight, Check, Heart, MapPin, Plus, Route } from "lucide-react";
+import { usePlans, type NewPlan } from "@/contexts/PlanContext";
+import { useToast } from "@/hooks/use-toast";
+import type { Destination } from "@/data/destinations";
+import type { TripCombo } from "@/lib/tripCombos";
+
+interface TripComboCardProps {
+  combo: TripCombo;
+  checkInId?: string;
+}
+
+const toNewPlan = (destination: Destination, checkInId?: string): NewPlan => ({
+  name: destination.name,
+  country: destination.country,
+  image: destination.image,
+  emotionalMatch: destination.emotionalMatch,
+  matchPercentage: destination.matchPercentage,
+  description: destination.description,
+  culturalHighlights: destination.culturalHighlights,
+  safetyLevel: destination.safetyLevel,
+  bestTime: destination.bestTime,
+  priceRange: destination.priceRange,
+  region: destination.country as NewPlan['region'],
+  checkInId,
+});
+
+export const TripComboCard = ({ combo, checkInId }: TripComboCardProps) => {
+  const { addTrip, selectedPlans } = usePlans();
+  const { toast } = useToast();
+
+  const isAdded = combo.stops.every(stop =>
+    selectedPlans.some(plan => plan.name === stop.name && plan.region === stop.country && plan.trip)
+  );
+
+  const handleAddTrip = () => {
+    addTrip(combo.stops.map(stop => toNewPlan(stop, checkInId)));
+    toast({
+      title: "Trip added!",
+      description: `${combo.stops.map(stop => stop.name).join(' → ')} has been added to your travel dashboard.`,
+    });
+  };
+
+  return (
+    <Card className="p-6 flex flex-col gap-4 h-full">
+      <div className="flex items-center justify-between">
+        <Badge variant="secondary" className="flex items-center gap-1">
+          <Route className="w-3 h-3" />
+          {combo.stops.length} stops
+        </Badge>
+        <span className="flex items-center gap-1 text-sm font-semibold text-foreground">
+          <Heart className="w-4 h-4 text-primary" />
+          {combo.score}% Match
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {combo.stops.map(stop => (
+          <img
+            key={stop.name}
+            src={stop.image || "/placeholder.svg"}
+            alt={`${stop.name}, ${stop.country}`}
+            className="w-full h-24 object-cover rounded-md"
+            onError={(e) => {
+              const target = e.currentTarget;
+              if (target.src !== "/placeholder.svg") target.src = "/placeholder.svg";
+            }}
+          />
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-lg font-semibold text-foreground">
+        {combo.stops.map((stop, index) => (
+          <span key={stop.name} className="flex items-center gap-2">
+            {index > 0 && <ArrowRight className="w-4 h-4 text-muted-foreground" />}
+            {stop.name}
+          </span>
+        ))}
+      </div>
+
+      <ul className="space-y-1 text-sm text-muted-foreground flex-grow">
+        {combo.hops.map(hop => (
+          <li key={`${hop.from}-${hop.to}`} className="flex items-start gap-2">
+            <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            {hop.link === "nearby"
+              ? `${hop.from} and ${hop.to} are close neighbours`
+              : `${hop.from} and ${hop.to} are in the same region`}
+          </li>
+        ))}
+      </ul>
+
+      <Button onClick={handleAddTrip} disabled={isAdded} className="w-full">
+        {isAdded ? (
+          <>
+            <Check className="w-4 h-4 mr-2" />
+            Trip Added
+          </>
+        ) : (
+          <>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Trip to Plans
+          </>
+        )}
+      </Button>
+    </Card>
+  );
+};
@@ -0,0 +1,209 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Star } from "lucide-react";
+import { usePlans, type SelectedPlan } from "@/contexts/PlanContext";
+import { useCheckIns } from "@/contexts/CheckInContext";
+import { useToast } from "@/hooks/use-toast";
+import { EMOTION_IDS } from "@/lib/emotionData";
+import {
+  compareWithCheckIn,
+  describeGoalOutcome,
+  tripReflectionSchema,
+  type TripReflectionAnswers,
+} from "@/lib/reflection";
+
+interface TripReflectionDialogProps {
+  // The plan being completed; the dialog is open while this is set
+  plan: SelectedPlan | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const deliveredOptions = [
+  { value: "yes", label: "Yes" },
+  { value: "partly", label: "Partly" },
+  { value: "no", label: "Not really" }
+] as const;
+
+const defaultValues: Partial<TripReflectionAnswers> = { emotions: [], notes: "" };
+
+export const TripReflectionDialog = ({ plan, onOpenChange }: TripReflectionDialogProps) => {
+  const { updatePlanStatus, saveReflection } = usePlans();
+  const { getCheckIn } = useCheckIns();
+  const { toast } = useToast();
+  const form = useForm<TripReflectionAnswers>({
+    resolver: zodResolver(tripReflectionSchema),
+    defaultValues
+  });
+
+  const checkIn = plan?.checkInId ? getCheckIn(plan.checkInId) : undefined;
+  const desiredChange = checkIn?.answers.desiredChange;
+
+  // Start each reflection from a blank form; completed plans being re-reflected keep their answers
+  useEffect(() => {
+    if (plan) {
+      form.reset(plan.reflection ?? defaultValues);
+    }
+  }, [plan, form]);
+
+  const handleSubmit = (answers: TripReflectionAnswers) => {
+    if (!plan) return;
+    const reflection = { ...answers, createdAt: new Date().toISOString() };
+    updatePlanStatus(plan.id, 'completed');
+    saveReflection(plan.id, reflection);
+    const outcome = compareWithCheckIn(reflection, checkIn);
+    toast({
+      title: outcome.verdict === 'met' ? "Goal met!" : outcome.verdict === 'partly' ? "Partly there" : "Journey completed",
+      description: describeGoalOutcome(outcome),
+    });
+    onOpenChange(false);
+  };
+
+  const handleSkip = () => {
+    if (!plan) return;
+    updatePlanStatus(plan.id, 'completed');
+    toast({ title: "Journey completed!", description: `Congratulations on completing your journey to ${plan.name}!` });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={plan !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>How was {plan?.name}?</DialogTitle>
+          <DialogDescription>
+            {desiredChange
+              ? `You went looking for ${desiredChange}. Take a moment to reflect on whether you found it.`
+              : "Take a moment to reflect on how the journey left you feeling."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="emotions"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>How do you feel now?</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {EMOTION_IDS.map(emotion => {
+                      const isSelected = field.value.includes(emotion);
+                      return (
+                        <Button
+                          key={emotion}
+                          type="button"
+                          size="sm"
+                          variant={isSelected ? "default" : "outline"}
+                          className="capitalize"
+                          onClick={() =>
+                            field.onChange(isSelected ? field.value.filter(e => e !== emotion) : [...field.value, emotion])
+                          }
+                        >
+                          {emotion}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="deliveredChange"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    {desiredChange ? `Did it bring the ${desiredChange} you wanted?` : "Did it deliver what you wanted?"}
+                  </FormLabel>
+                  <FormControl>
+                    <RadioGroup value={field.value} onValueChange={field.onChange} className="flex gap-6">
+                      {deliveredOptions.map(option => (
+                        <div key={option.value} className="flex items-center gap-2">
+                          <RadioGroupItem value={option.value} id={`delivered-${option.value}`} />
+                          <Label htmlFor={`delivered-${option.value}`}>{option.label}</Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="rating"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Your rating</FormLabel>
+                  <div className="flex gap-1">
+                    {[1, 2, 3, 4, 5].map(value => (
+                      <button
+                        key={value}
+                        type="button"
+                        onClick={() => field.onChange(value)}
+                        aria-label={`${value} star${value > 1 ? 's' : ''}`}
+                      >
+                        <Star
+                          className={`w-6 h-6 ${
+                            field.value >= value ? 'text-yellow-500 fill-current' : 'text-muted-foreground'
+                          }`}
+                        />
+                      </button>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Moments you want to remember, what you'd do differently..."
+                      className="min-h-[100px] resize-none"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter className="gap-2">
+              {plan?.status !== 'completed' && (
+                <Button type="button" variant="ghost" onClick={handleSkip}>
+                  Skip & Complete
+                </Button>
+              )}
+              <Button type="submit" className="bg-gradient-sunset text-white">
+                Save Reflection
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,95 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface ProfileUpdate {
+  displayName: string;
+}
+
+interface AuthContextType {
+  session: Session | null;
+  user: User | null;
+  // True until the stored session has been restored, so nothing treats a signed-in traveler as anonymous
+  isLoading: boolean;
+  signUp: (email: string, password: string) => Promise<void>;
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  signInWithMagicLink: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  updateProfile: (profile: ProfileUpdate) => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+// Email links bring the traveler back to their profile, signed in
+const redirectTo = () => `${window.location.origin}/profile`;
+
+export const getDisplayName = (user: User) =>
+  (user.user_metadata?.display_name as string | undefined) || user.email?.split('@')[0] || 'Traveler';
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setIsLoading(false);
+    });
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setIsLoading(false);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  // Each action throws Supabase's error so the form that called it can show the message
+  const signUp = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signUp({ email, password, options: { emailRedirectTo: redirectTo() } });
+    if (error) throw error;
+  };
+
+  const signInWithPassword = async (email: string, password: string) => {
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+  };
+
+  const signInWithMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({ email, options: { emailRedirectTo: redirectTo() } });
+    if (error) throw error;
+  };
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  };
+
+  const updateProfile = async ({ displayName }: ProfileUpdate) => {
+    const { error } = await supabase.auth.updateUser({ data: { display_name: displayName } });
+    if (error) throw error;
+  };
+
+  const value = {
+    session,
+    user: session?.user ?? null,
+    isLoading,
+    signUp,
+    signInWithPassword,
+    signInWithMagicLink,
+    signOut,
+    updateProfile
+  };
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,86 @@
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import type { EmotionData } from '@/lib/emotionData';
+import { checkInStore } from '@/lib/checkInStorage';
+
+// One submission of the emotion form and the recommendations it produced
+export interface CheckIn {
+  id: string;
+  createdAt: string;
+  answers: EmotionData;
+  // Latest result set shown for this check-in; refreshing the suggestions replaces it
+  seed?: number;
+  recommendations: string[]; // destination keys, see getDestinationKey
+}
+
+interface CheckInContextType {
+  checkIns: CheckIn[];
+  addCheckIn: (answers: EmotionData) => CheckIn;
+  updateCheckInResults: (id: string, seed: number, recommendations: string[]) => void;
+  removeCheckIn: (id: string) => void;
+  getCheckIn: (id: string) => CheckIn | undefined;
+  restoreCheckIns: (checkIns: CheckIn[]) => void;
+}
+
+const CheckInContext = createContext<CheckInContextType | undefined>(undefined);
+
+export const useCheckIns = () => {
+  const context = useContext(CheckInContext);
+  if (!context) {
+    throw new Error('useCheckIns must be used within a CheckInProvider');
+  }
+  return context;
+};
+
+export const CheckInProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [checkIns, setCheckIns] = useState<CheckIn[]>(checkInStore.load);
+
+  // Save check-ins to localStorage whenever they change
+  useEffect(() => {
+    checkInStore.save(checkIns);
+  }, [checkIns]);
+
+  const addCheckIn = (answers: EmotionData) => {
+    const checkIn: CheckIn = {
+      id: `checkin-${Date.now()}`,
+      createdAt: new Date().toISOString(),
+      answers,
+      recommendations: []
+    };
+    setCheckIns(prev => [checkIn, ...prev]);
+    return checkIn;
+  };
+
+  // Stable so the results view can call it from an effect whenever its picks change
+  const updateCheckInResults = useCallback((id: string, seed: number, recommendations: string[]) => {
+    setCheckIns(prev =>
+      prev.map(checkIn =>
+        checkIn.id === id ? { ...checkIn, seed, recommendations } : checkIn
+      )
+    );
+  }, []);
+
+  const removeCheckIn = (id: string) => {
+    setCheckIns(prev => prev.filter(checkIn => checkIn.id !== id));
+  };
+
+  const getCheckIn = (id: string) => checkIns.find(checkIn => checkIn.id === id);
+
+  const restoreCheckIns = (restored: CheckIn[]) => {
+    setCheckIns(restored);
+  };
+
+  const value = {
+    checkIns,
+    addCheckIn,
+    updateCheckInResults,
+    removeCheckIn,
+    getCheckIn,
+    restoreCheckIns
+  };
+
+  return (
+    <CheckInContext.Provider value={value}>
+      {children}
+    </CheckInContext.Provider>
+  );
+};
@@ -0,0 +1,69 @@
+import React, { createContext, useContext, useState, useEffect } from 'react';
+import { loadFeedback, saveFeedback } from '@/lib/feedbackStorage';
+
+export type FeedbackValue = 'like' | 'dislike' | 'hidden';
+
+// Keyed by destination (see getDestinationKey)
+export type FeedbackMap = Record<string, FeedbackValue>;
+
+interface FeedbackContextType {
+  feedback: FeedbackMap;
+  setFeedback: (destinationKey: string, value: FeedbackValue | null) => void;
+  getFeedback: (destinationKey: string) => FeedbackValue | undefined;
+  getKeysWithFeedback: (value: FeedbackValue) => string[];
+  restoreFeedback: (feedback: FeedbackMap) => void;
+}
+
+const FeedbackContext = createContext<FeedbackContextType | undefined>(undefined);
+
+export const useFeedback = () => {
+  const context = useContext(FeedbackContext);
+  if (!context) {
+    throw new Error('useFeedback must be used within a FeedbackProvider');
+  }
+  return context;
+};
+
+export const FeedbackProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [feedback, setFeedbackMap] = useState<FeedbackMap>(loadFeedback);
+
+  // Save feedback to localStorage whenever it changes
+  useEffect(() => {
+    saveFeedback(feedback);
+  }, [feedback]);
+
+  const setFeedback = (destinationKey: string, value: FeedbackValue | null) => {
+    setFeedbackMap(prev => {
+      const next = { ...prev };
+      if (value) {
+        next[destinationKey] = value;
+      } else {
+        delete next[destinationKey];
+      }
+      return next;
+    });
+  };
+
+  const getFeedback = (destinationKey: string) => feedback[destinationKey];
+
+  const getKeysWithFeedback = (value: FeedbackValue) =>
+    Object.keys(feedback).filter(key => feedback[key] === value);
+
+  const restoreFeedback = (restored: FeedbackMap) => {
+    setFeedbackMap(restored);
+  };
+
+  const value = {
+    feedback,
+    setFeedback,
+    getFeedback,
+    getKeysWithFeedback,
+    restoreFeedback
+  };
+
+  return (
+    <FeedbackContext.Provider value={value}>
+      {children}
+    </FeedbackContext.Provider>
+  );
+};
@@ -1,4 +1,24 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import type { TripReflection } from '@/lib/reflection';
+import type { PlanDates } from '@/lib/planDates';
+import type { TravelStepId } from '@/data/travelSteps';
+import { getStatusForSteps, getStepsForStatus, toggleStep } from '@/lib/travelProgress';
+import { isSameRecord } from '@/lib/storage';
+import {
+  planStore,
+  planTombstoneStore,
+  signedOutPlanStore,
+  mergePlans,
+  mergeTombstones,
+  withoutDeletedPlans,
+  loadPlanOwner,
+  savePlanOwner,
+  type PlanTombstone
+} from '@/lib/planStorage';
+import { createSupabasePlanRemote, syncPlans, type PlanRemote } from '@/lib/planSync';
 
 export interface SelectedPlan {
   id: string;
@@ -12,18 +32,47 @@ export interface SelectedPlan {
   safetyLevel: 'low' | 'medium' | 'high';
   bestTime: string;
   priceRange: '$' | '$$' | '$$$';
-  status: 'selected' | 'ongoing' | 'completed';
+  status: 'selected' | 'ongoing' | 'completed'; // follows completedSteps, see getStatusForSteps
   dateAdded: string;
-  region: 'Tamil Nadu' | 'Kerala' | 'Bangalore';
+  completedAt?: string; // set when status becomes 'completed'
+  updatedAt?: string; // last change made to the plan, used to merge edits from other tabs and the server
+  region: 'Tamil Nadu' | 'Kerala' | 'Bangalore' | 'Near Bangalore';
+  // Planned travel dates as yyyy-MM-dd, both inclusive; set together or not at all
+  startDate?: string;
+  endDate?: string;
+  // Set when the plan is one stop of a multi-stop trip
+  trip?: {
+    id: string;
+    name: string;
+    order: number;
+  };
+  // The emotion check-in whose recommendations led to this plan
+  checkInId?: string;
+  // Travel steps ticked off so far; absent on plans saved before the checklist (see getCompletedSteps)
+  completedSteps?: TravelStepId[];
+  // How the traveler felt once the journey was completed
+  reflection?: TripReflection;
 }
 
+// 'local' when there is no account to sync with; 'error' once a sync has failed, until one succeeds
+export type PlanSyncStatus = 'local' | 'offline' | 'synced' | 'error';
+
+export type NewPlan = Omit<SelectedPlan, 'id' | 'dateAdded' | 'status' | 'completedAt' | 'updatedAt' | 'reflection'>;
+
 interface PlanContextType {
   selectedPlans: SelectedPlan[];
-  addPlan: (plan: Omit<SelectedPlan, 'id' | 'dateAdded' | 'status'>) => void;
+  addPlan: (plan: NewPlan) => void;
+  addTrip: (stops: NewPlan[]) => void;
+  getPlansByTrip: (tripId: string) => SelectedPlan[];
   removePlan: (id: string) => void;
   updatePlanStatus: (id: string, status: SelectedPlan['status']) => void;
+  togglePlanStep: (id: string, stepId: TravelStepId) => void;
+  saveReflection: (id: string, reflection: TripReflection) => void;
+  updatePlanDates: (id: string, dates: PlanDates | null) => void;
+  restorePlans: (plans: SelectedPlan[]) => void;
   getPlansByStatus: (status: SelectedPlan['status']) => SelectedPlan[];
   getPlansByRegion: (region: string) => SelectedPlan[];
+  syncStatus: PlanSyncStatus;
 }
 
 const PlanContext = createContext<PlanContextType | undefined>(undefined);
@@ -36,27 +85,151 @@ export const usePlans = () => {
   return context;
 };
 
-export const PlanProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [selectedPlans, setSelectedPlans] = useState<SelectedPlan[]>([]);
+// How long plans have to stay unchanged before they are synced, so a burst of edits is sent once
+const SYNC_DELAY_MS = 1000;
+// After a failed sync, how long to wait before trying again without any new changes
+const SYNC_RETRY_MS = 30000;
+
+interface PlanProviderProps {
+  children: React.ReactNode;
+  // Syncs with this remote instead of the signed-in traveler's Supabase account, e.g. createInMemoryPlanRemote
+  remote?: PlanRemote;
+}
+
+export const PlanProvider: React.FC<PlanProviderProps> = ({ children, remote: remoteOverride }) => {
+  // Loaded lazily so the first save can only ever write back what was read
+  const [selectedPlans, setSelectedPlans] = useState<SelectedPlan[]>(planStore.load);
+  const [tombstones, setTombstones] = useState<PlanTombstone[]>(planTombstoneStore.load);
+  const [planOwner, setPlanOwner] = useState<string | null>(loadPlanOwner);
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const userId = user?.id ?? null;
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [syncFailed, setSyncFailed] = useState(false);
+  const [syncRetry, setSyncRetry] = useState(0);
+
+  // Save plans to localStorage whenever they change
+  useEffect(() => {
+    planStore.save(selectedPlans);
+  }, [selectedPlans]);
+
+  useEffect(() => {
+    planTombstoneStore.save(tombstones);
+  }, [tombstones]);
+
+  useEffect(() => {
+    savePlanOwner(planOwner);
+  }, [planOwner]);
 
-  // Load plans from localStorage on mount
+  // The plans on this device follow whoever is signed in. Plans made before the first sign-in move
+  // into that account. Signing out, or in as someone else, puts the previous account's plans aside,
+  // unsynced changes included, until that account signs in here again.
   useEffect(() => {
-    const savedPlans = localStorage.getItem('selectedPlans');
-    if (savedPlans) {
-      setSelectedPlans(JSON.parse(savedPlans));
+    if (isAuthLoading || userId === planOwner) return;
+    const signedOut = signedOutPlanStore.load();
+    const returning = signedOut.find(entry => entry.ownerId === userId);
+    const adopted = planOwner ? [] : selectedPlans.filter(plan => !returning?.plans.some(p => p.id === plan.id));
+    if (userId && adopted.length > 0) {
+      toast({
+        title: "Plans saved to your account",
+        description: `${adopted.length} plan${adopted.length > 1 ? 's' : ''} from this device will now sync with your account.`,
+      });
     }
+    signedOutPlanStore.save([
+      ...signedOut.filter(entry => entry.ownerId !== userId && entry.ownerId !== planOwner),
+      ...(planOwner ? [{ ownerId: planOwner, plans: selectedPlans, tombstones }] : []),
+    ]);
+    setSelectedPlans([...(returning?.plans ?? []), ...adopted]);
+    // Deletions made anonymously were never synced; the returning account's still need to be
+    setTombstones(returning?.tombstones ?? []);
+    setPlanOwner(userId);
+  }, [isAuthLoading, userId, planOwner, selectedPlans, tombstones]);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
   }, []);
 
-  // Save plans to localStorage whenever they change
+  const remote = useMemo(
+    () => remoteOverride ?? (userId && userId === planOwner ? createSupabasePlanRemote(supabase, userId) : null),
+    [remoteOverride, userId, planOwner]
+  );
+
+  // localStorage stays the source of truth; when signed in and online, reconcile it with the account.
+  // Changes made while offline are picked up by the sync that runs once the connection is back.
   useEffect(() => {
-    localStorage.setItem('selectedPlans', JSON.stringify(selectedPlans));
-  }, [selectedPlans]);
+    if (!remote || !isOnline) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      syncPlans(remote, selectedPlans, tombstones)
+        .then(result => {
+          // Plans changed while syncing; the next sync will include those changes
+          if (cancelled) return;
+          setSelectedPlans(prev => JSON.stringify(result.plans) === JSON.stringify(prev) ? prev : result.plans);
+          setTombstones(prev => JSON.stringify(result.tombstones) === JSON.stringify(prev) ? prev : result.tombstones);
+          setSyncFailed(false);
+        })
+        .catch(error => {
+          console.warn('Could not sync plans', error);
+          if (!cancelled) setSyncFailed(true);
+        });
+    }, SYNC_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [remote, isOnline, selectedPlans, tombstones, syncRetry]);
+
+  useEffect(() => {
+    if (!syncFailed) return;
+    toast({
+      title: "Plans aren't syncing",
+      description: "Your changes are saved on this device and will sync once your account can be reached.",
+      variant: "destructive",
+    });
+    const timer = setInterval(() => setSyncRetry(count => count + 1), SYNC_RETRY_MS);
+    return () => clearInterval(timer);
+  }, [syncFailed]);
+
+  // Nothing is left to fail once there is no account to sync with
+  useEffect(() => {
+    if (!remote) setSyncFailed(false);
+  }, [remote]);
 
-  const addPlan = (plan: Omit<SelectedPlan, 'id' | 'dateAdded' | 'status'>) => {
+  const syncStatus: PlanSyncStatus = !remote ? 'local' : !isOnline ? 'offline' : syncFailed ? 'error' : 'synced';
+
+  // Another tab saved its plans; fold them in so neither tab's next save overwrites the other's changes
+  useEffect(() => planStore.subscribe((remotePlans, savedAt) => {
+    setSelectedPlans(prev => {
+      const merged = mergePlans(prev, remotePlans, savedAt, tombstones);
+      // Keeping the same array when nothing changed stops the tabs echoing saves back and forth
+      return JSON.stringify(merged) === JSON.stringify(prev) ? prev : merged;
+    });
+  }), [tombstones]);
+
+  // Deletions from another tab are kept alongside this tab's, so neither tab's save drops the other's
+  useEffect(() => planTombstoneStore.subscribe(remoteTombstones => {
+    setTombstones(prev => {
+      const merged = mergeTombstones(prev, remoteTombstones);
+      return JSON.stringify(merged) === JSON.stringify(prev) ? prev : merged;
+    });
+    setSelectedPlans(prev => {
+      const remaining = withoutDeletedPlans(prev, remoteTombstones);
+      return remaining.length === prev.length ? prev : remaining;
+    });
+  }), []);
+
+  const addPlan = (plan: NewPlan) => {
     const newPlan: SelectedPlan = {
       ...plan,
       id: `${plan.name}-${Date.now()}`,
       dateAdded: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
       status: 'selected'
     };
     
@@ -67,18 +240,100 @@ export const PlanProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  // Adds every stop as a plan linked by a shared trip id; stops already planned join the trip
+  const addTrip = (stops: NewPlan[]) => {
+    const tripId = `trip-${Date.now()}`;
+    const name = stops.map(stop => stop.name).join(' → ');
+    const dateAdded = new Date().toISOString();
+
+    setSelectedPlans(prev => {
+      const next = [...prev];
+      stops.forEach((stop, order) => {
+        const trip = { id: tripId, name, order };
+        const existingIndex = next.findIndex(p => p.name === stop.name && p.region === stop.region);
+        if (existingIndex >= 0) {
+          next[existingIndex] = { ...next[existingIndex], trip, updatedAt: dateAdded };
+        } else {
+          next.push({ ...stop, id: `${stop.name}-${Date.now()}`, dateAdded, updatedAt: dateAdded, status: 'selected', trip });
+        }
+      });
+      return next;
+    });
+  };
+
   const removePlan = (id: string) => {
     setSelectedPlans(prev => prev.filter(plan => plan.id !== id));
+    setTombstones(prev => [...prev.filter(tombstone => tombstone.id !== id), { id, deletedAt: new Date().toISOString() }]);
+  };
+
+  // The checklist decides the status, so both change together
+  const withSteps = (plan: SelectedPlan, completedSteps: TravelStepId[]): SelectedPlan => {
+    const status = getStatusForSteps(completedSteps);
+    return {
+      ...plan,
+      completedSteps,
+      status,
+      completedAt: status === 'completed' ? plan.completedAt ?? new Date().toISOString() : undefined,
+      updatedAt: new Date().toISOString()
+    };
   };
 
   const updatePlanStatus = (id: string, status: SelectedPlan['status']) => {
     setSelectedPlans(prev => 
       prev.map(plan => 
-        plan.id === id ? { ...plan, status } : plan
+        plan.id === id ? withSteps(plan, getStepsForStatus(plan, status)) : plan
+      )
+    );
+  };
+
+  const togglePlanStep = (id: string, stepId: TravelStepId) => {
+    setSelectedPlans(prev =>
+      prev.map(plan => (plan.id === id ? withSteps(plan, toggleStep(plan, stepId)) : plan))
+    );
+  };
+
+  const saveReflection = (id: string, reflection: TripReflection) => {
+    setSelectedPlans(prev =>
+      prev.map(plan =>
+        plan.id === id ? { ...plan, reflection, updatedAt: new Date().toISOString() } : plan
       )
     );
   };
 
+  const updatePlanDates = (id: string, dates: PlanDates | null) => {
+    setSelectedPlans(prev =>
+      prev.map(plan =>
+        plan.id === id
+          ? {
+              ...plan,
+              startDate: dates?.startDate,
+              endDate: dates?.endDate,
+              updatedAt: new Date().toISOString()
+            }
+          : plan
+      )
+    );
+  };
+
+  // Replaces every plan, e.g. from a backup. Restored changes count as new edits so syncing keeps them,
+  // and plans left out are recorded as deleted.
+  const restorePlans = (plans: SelectedPlan[]) => {
+    const now = new Date().toISOString();
+    // Both lists come from the plans the restore preview was shown against
+    setSelectedPlans(
+      plans.map(plan => {
+        const existing = selectedPlans.find(p => p.id === plan.id);
+        return existing && isSameRecord(existing, plan) ? existing : { ...plan, updatedAt: now };
+      })
+    );
+    setTombstones(prev => [
+      ...prev.filter(tombstone => !plans.some(plan => plan.id === tombstone.id)),
+      ...selectedPlans
+        .filter(plan => !plans.some(p => p.id === plan.id))
+        .map(plan => ({ id: plan.id, deletedAt: now }))
+    ]);
+  };
+
   const getPlansByStatus = (status: SelectedPlan['status']) => {
     return selectedPlans.filter(plan => plan.status === status);
   };
@@ -87,13 +342,26 @@ export const PlanProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return selectedPlans.filter(plan => plan.region === region);
   };
 
+  const getPlansByTrip = (tripId: string) => {
+    return selectedPlans
+      .filter(plan => plan.trip?.id === tripId)
+      .sort((a, b) => a.trip!.order - b.trip!.order);
+  };
+
   const value = {
     selectedPlans,
     addPlan,
+    addTrip,
     removePlan,
     updatePlanStatus,
+    togglePlanStep,
+    saveReflection,
+    updatePlanDates,
+    restorePlans,
     getPlansByStatus,
-    getPlansByRegion
+    getPlansByRegion,
+    getPlansByTrip,
+    syncStatus
   };
 
   return (
@@ -1,11 +1,23 @@
 // Centralized destination datasets for Tamil Nadu, Kerala, and Bangalore
 // Shared across pages and recommendation engine
 
+export type Vibe =
+  | "peace"
+  | "adventure"
+  | "joy"
+  | "spiritual"
+  | "romance"
+  | "culture"
+  | "energy"
+  | "nature"
+  | "luxury";
+
 export type Destination = {
   name: string;
   country: string; // Region label (e.g., "Tamil Nadu", "Kerala", "Bangalore", "Near Bangalore")
   image: string;
-  emotionalMatch: string;
+  emotionalMatch: string; // Display copy only; use vibes for matching
+  vibes: Vibe[];
   matchPercentage: number;
   description: string;
   culturalHighlights: string[];
@@ -32,6 +44,7 @@ export const tamilNaduDestinations: Destination[] = [
     country: "Tamil Nadu",
     image: "https://images.unsplash.com/photo-1589136777351-fdc9c9cab193?q=80&w=870&auto=format&fit=crop&ixlib=rb-4.1.0&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D",
     emotionalMatch: "Peaceful & Rejuvenating",
+    vibes: ["peace", "nature", "romance"],
     matchPercentage: 94,
     description: "Escape to the serene hill station of Ooty with its tea gardens, misty mountains, and colonial charm perfect for mental peace.",
     culturalHighlights: ["Tea Garden Tours", "Toy Train Ride", "Rose Garden"],
@@ -55,6 +68,7 @@ export const tamilNaduDestinations: Destination[] = [
     country: "Tamil Nadu",
     image: "https://images.unsplash.com/photo-1582510003544-4d00b7f74220?w=800&q=80",
     emotionalMatch: "Cultural & Reflective",
+    vibes: ["culture", "spiritual", "peace"],
     matchPercentage: 89,
     description: "Discover ancient rock-cut temples and sculptures while enjoying peaceful beach vibes at this UNESCO World Heritage site.",
     culturalHighlights: ["Shore Temple", "Rock Sculptures", "Beach Meditation"],
@@ -78,6 +92,7 @@ export const tamilNaduDestinations: Destination[] = [
     country: "Tamil Nadu",
     image: "https://www.indiantempletour.com/wp-content/uploads/2022/08/Kodaikanal-Package-Tour.jpg",
     emotionalMatch: "Romantic & Dreamy",
+    vibes: ["romance", "peace", "nature"],
     matchPercentage: 92,
     description: "The 'Princess of Hill Stations' offers misty lakes, pine forests, and cozy weather perfect for romantic getaways.",
     culturalHighlights: ["Kodai Lake", "Coaker's Walk", "Pine Forest"],
@@ -101,6 +116,7 @@ export const tamilNaduDestinations: Destination[] = [
     country: "Tamil Nadu",
     image: "https://travelcrafters.com.au/wp-content/uploads/2025/01/glass-bridge.jpg.webp",
     emotionalMatch: "Spiritual & Contemplative",
+    vibes: ["spiritual", "peace", "nature"],
     matchPercentage: 87,
     description: "Experience the magical sunrise and sunset at India's southernmost tip, where three seas meet in spiritual harmony.",
     culturalHighlights: ["Sunrise Point", "Vivekananda Rock", "Thiruvalluvar Statue"],
@@ -124,6 +140,7 @@ export const tamilNaduDestinations: Destination[] = [
     country: "Tamil Nadu",
     image: "https://bestplaces.blog/wp-content/uploads/2025/03/Best-Places-to-Visit-in-Yercaud.webp",
     emotionalMatch: "Refreshing & Energizing",
+    vibes: ["energy", "nature", "peace"],
     matchPercentage: 85,
     description: "A lesser-known gem in the Shevaroy Hills, perfect for those seeking solitude amidst coffee plantations and serene lakes.",
     culturalHighlights: ["Coffee Plantations", "Emerald Lake", "Servaroyan Temple"],
@@ -147,6 +164,7 @@ export const tamilNaduDestinations: Destination[] = [
     country: "Tamil Nadu",
     image: "https://letusdiscoverindia.com/wp-content/uploads/2023/03/pexels-photo-5124396.jpeg",
     emotionalMatch: "Cultural & Inspiring",
+    vibes: ["culture", "spiritual"],
     matchPercentage: 88,
     description: "Immerse yourself in the rich Chola heritage with magnificent temples, classical music, and traditional art forms.",
     culturalHighlights: ["Brihadeeswarar Temple", "Thanjavur Paintings", "Classical Music"],
@@ -170,6 +188,7 @@ export const tamilNaduDestinations: Destination[] = [
     country: "Tamil Nadu",
     image: "https://hblimg.mmtcdn.com/content/hubble/img/desttvimg/mmt/destination/m_Madurai_tv_destination_img_1_l_542_967.jpg",
     emotionalMatch: "Spiritual & Vibrant",
+    vibes: ["spiritual", "culture", "energy", "joy"],
     matchPercentage: 91,
     description: "Experience the divine energy of Meenakshi Temple and immerse in the vibrant temple city culture and traditions.",
     culturalHighlights: ["Meenakshi Temple", "Temple Festivals", "Local Markets"],
@@ -193,6 +212,7 @@ export const tamilNaduDestinations: Destination[] = [
     country: "Tamil Nadu",
     image: "https://hblimg.mmtcdn.com/content/hubble/img/destimg/mmt/destination/m_Rameshwaram_tv_destination_img_5_l_833_1248.jpg",
     emotionalMatch: "Peaceful & Sacred",
+    vibes: ["spiritual", "peace"],
     matchPercentage: 89,
     description: "Find spiritual solace at this sacred island town with pristine beaches and ancient temples offering deep meditation experiences.",
     culturalHighlights: ["Ramanathaswamy Temple", "Pamban Bridge", "Sacred Baths"],
@@ -216,6 +236,7 @@ export const tamilNaduDestinations: Destination[] = [
     country: "Tamil Nadu",
     image: "https://www.southtourism.in/assets/images/cityinfo/Pondicherry2.png",
     emotionalMatch: "Tranquil & International",
+    vibes: ["peace", "culture", "romance"],
     matchPercentage: 90,
     description: "Experience French colonial charm mixed with spiritual vibes at Auroville and peaceful beaches perfect for inner reflection.",
     culturalHighlights: ["French Quarter", "Auroville", "Promenade Beach"],
@@ -242,6 +263,7 @@ export const keralaDestinations: Destination[] = [
     country: "Kerala",
     image: "https://images.unsplash.com/photo-1602216056096-3b40cc0c9944?w=800&q=80",
     emotionalMatch: "Peaceful & Meditative",
+    vibes: ["peace", "nature", "romance"],
     matchPercentage: 96,
     description: "Float through serene backwaters on traditional houseboats, finding inner peace amidst Kerala's Venice-like waterways.",
     culturalHighlights: ["Houseboat Experience", "Backwater Villages", "Coir Making"],
@@ -265,6 +287,7 @@ export const keralaDestinations: Destination[] = [
     country: "Kerala",
     image: "https://www.munnar.holiday/munnartourism/wp-content/uploads/2024/11/what-is-munnar-famous-for.jpg",
     emotionalMatch: "Refreshing & Energizing",
+    vibes: ["energy", "nature", "peace", "adventure"],
     matchPercentage: 93,
     description: "Breathe fresh mountain air amidst rolling tea plantations and misty hills, perfect for rejuvenating your spirit.",
     culturalHighlights: ["Tea Plantations", "Spice Gardens", "Wildlife Sanctuary"],
@@ -288,6 +311,7 @@ export const keralaDestinations: Destination[] = [
     country: "Kerala",
     image: "https://keralatourism.travel/images//tourist-places/ramakkalmedu-thekkady/ramakkalmedu-thekkady-tourism-entry-ticket-price.jpg",
     emotionalMatch: "Adventurous & Wild",
+    vibes: ["adventure", "nature"],
     matchPercentage: 90,
     description: "Embark on wildlife adventures in Periyar National Park, where nature's raw beauty awakens your adventurous spirit.",
     culturalHighlights: ["Periyar Wildlife", "Spice Plantations", "Bamboo Rafting"],
@@ -311,6 +335,7 @@ export const keralaDestinations: Destination[] = [
     country: "Kerala",
     image: "https://akm-img-a-in.tosshub.com/indiatoday/images/story/202501/kochi-water-metro-244106949-16x9_0.jpg?VersionId=XJlI7DwEJ5TImeAo9ZHsnUL0oNw.ekzO",
     emotionalMatch: "Cultural & Inspiring",
+    vibes: ["culture", "joy"],
     matchPercentage: 88,
     description: "Explore the historic port city where Portuguese, Dutch, and British influences blend with local culture in fascinating harmony.",
     culturalHighlights: ["Chinese Fishing Nets", "Fort Kochi", "Kathakali Performances"],
@@ -334,6 +359,7 @@ export const keralaDestinations: Destination[] = [
     country: "Kerala",
     image: "https://res.cloudinary.com/dyiffrkzh/image/upload/c_fill,f_auto,fl_progressive.strip_profile,g_center,h_400,q_auto,w_700/v1704969274/bbj/njqtfztadcu9xf4tahht.jpg",
     emotionalMatch: "Peaceful & Nature-loving",
+    vibes: ["peace", "nature", "adventure"],
     matchPercentage: 91,
     description: "Disconnect from the world in Wayanad's pristine forests, waterfalls, and tribal culture for a soul-cleansing experience.",
     culturalHighlights: ["Edakkal Caves", "Tribal Culture", "Waterfalls"],
@@ -357,6 +383,7 @@ export const keralaDestinations: Destination[] = [
     country: "Kerala",
     image: "https://irisholidays.com/keralatourism/wp-content/uploads/2014/06/best-things-to-do-in-varkala.jpg",
     emotionalMatch: "Spiritual & Relaxing",
+    vibes: ["spiritual", "peace", "nature"],
     matchPercentage: 94,
     description: "Find spiritual solace on Varkala's dramatic clifftop beaches, where ancient temples meet healing Ayurvedic traditions.",
     culturalHighlights: ["Cliff Beach", "Ayurvedic Spas", "Janardhana Temple"],
@@ -380,6 +407,7 @@ export const keralaDestinations: Destination[] = [
     country: "Kerala",
     image: "https://www.theraviz.com/wp-content/uploads/2024/04/The-Enchanting-Backwaters-of-Kumarakom.jpg",
     emotionalMatch: "Peaceful & Bird-watching",
+    vibes: ["peace", "nature", "romance"],
     matchPercentage: 93,
     description: "Experience serenity at Kumarakom Bird Sanctuary and backwater cruises, perfect for nature lovers seeking tranquil moments.",
     culturalHighlights: ["Bird Sanctuary", "Backwater Cruises", "Village Walks"],
@@ -403,6 +431,7 @@ export const keralaDestinations: Destination[] = [
     country: "Kerala",
     image: "https://s3.india.com/wp-content/uploads/2025/06/Kovalam-hidden-gems-1.jpg##image/jpg",
     emotionalMatch: "Relaxing & Beach Therapy",
+    vibes: ["peace", "nature", "joy"],
     matchPercentage: 91,
     description: "Unwind on pristine crescent beaches with Ayurvedic massages and lighthouse views, ideal for stress relief and rejuvenation.",
     culturalHighlights: ["Lighthouse Beach", "Ayurvedic Centers", "Fishing Villages"],
@@ -426,6 +455,7 @@ export const keralaDestinations: Destination[] = [
     country: "Kerala",
     image: "https://www.wowabouts.com/z-media/2018/10/Athirappilly%20Falls.jpg",
     emotionalMatch: "Adventurous & Nature's Power",
+    vibes: ["adventure", "nature", "energy"],
     matchPercentage: 89,
     description: "Marvel at Kerala's Niagara - the powerful Athirappilly Falls surrounded by lush rainforests, perfect for adventure seekers.",
     culturalHighlights: ["Athirappilly Falls", "Rainforest Trekking", "River Rafting"],
@@ -452,6 +482,7 @@ export const bangaloreDestinations: Destination[] = [
     country: "Bangalore",
     image: "https://media1.thrillophilia.com/filestore/63znh36mzyxi2gmmbn4c38mekupu_1562854402_lal_bagh.jpg",
     emotionalMatch: "Peaceful & Rejuvenating",
+    vibes: ["peace", "nature"],
     matchPercentage: 92,
     description: "Find tranquility in this 240-acre botanical paradise with over 1,000 species of flora, perfect for morning meditation walks.",
     culturalHighlights: ["Glass House", "Flower Shows", "Rock Garden"],
@@ -475,6 +506,7 @@ export const bangaloreDestinations: Destination[] = [
     country: "Near Bangalore",
     image: "https://www.treksandtrails.org/blog/wp-content/uploads/2020/08/Nandi-Hills.jpg",
     emotionalMatch: "Adventurous & Refreshing",
+    vibes: ["adventure", "energy", "nature", "romance"],
     matchPercentage: 89,
     description: "Watch breathtaking sunrises from this ancient hill fortress, just 60km from Bangalore - perfect for weekend escapes and cycling.",
     culturalHighlights: ["Sunrise Point", "Tipu's Drop", "Ancient Temples"],
@@ -498,6 +530,7 @@ export const bangaloreDestinations: Destination[] = [
     country: "Bangalore",
     image: "https://www.shutterstock.com/image-photo/tree-garden-cubbon-park-bangalore-600nw-1504042868.jpg",
     emotionalMatch: "Urban Peace & Wellness",
+    vibes: ["peace", "nature"],
     matchPercentage: 88,
     description: "Escape city stress in this 300-acre urban oasis in the heart of Bangalore, ideal for jogging, yoga, and peaceful reflection.",
     culturalHighlights: ["State Library", "Museum", "Bandstand"],
@@ -521,6 +554,7 @@ export const bangaloreDestinations: Destination[] = [
     country: "Bangalore",
     image: "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=800&q=80",
     emotionalMatch: "Luxurious & Indulgent",
+    vibes: ["luxury", "joy"],
     matchPercentage: 85,
     description: "Indulge in luxury shopping and fine dining in India's most premium mall, perfect for treating yourself and boosting confidence.",
     culturalHighlights: ["Fine Dining", "Luxury Shopping", "Rooftop Views"],
@@ -544,6 +578,7 @@ export const bangaloreDestinations: Destination[] = [
     country: "Bangalore",
     image: "https://images.unsplash.com/photo-1596484552834-6a58f850e0a1?w=800&q=80",
     emotionalMatch: "Historical & Inspiring",
+    vibes: ["culture"],
     matchPercentage: 87,
     description: "Step into royal grandeur at this Tudor-style palace, inspiring awe with its architecture and stories of the Mysore royalty.",
     culturalHighlights: ["Royal Architecture", "Palace Grounds", "Historical Tours"],
@@ -567,6 +602,7 @@ export const bangaloreDestinations: Destination[] = [
     country: "Near Bangalore",
     image: "https://images.unsplash.com/photo-1489599096090-da5b0a113f2e?w=800&q=80",
     emotionalMatch: "Fun & Entertaining",
+    vibes: ["joy", "energy"],
     matchPercentage: 83,
     description: "Experience Bollywood magic and entertainment at this sprawling film studio and theme park, perfect for family fun and excitement.",
     culturalHighlights: ["Film Studios", "Theme Park", "Cultural Shows"],
@@ -590,6 +626,7 @@ export const bangaloreDestinations: Destination[] = [
     country: "Near Bangalore",
     image: "https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=800&q=80",
     emotionalMatch: "Adventurous & Spiritual",
+    vibes: ["adventure", "spiritual", "nature"],
     matchPercentage: 86,
     description: "Explore ancient hilltop temples and scenic trekking trails, perfect for combining adventure with spiritual experiences.",
     culturalHighlights: ["Nandi Hills Extension", "Ancient Temples", "Trekking Trails"],
@@ -613,6 +650,7 @@ export const bangaloreDestinations: Destination[] = [
     country: "Near Bangalore",
     image: "https://images.unsplash.com/photo-1489599096090-da5b0a113f2e?w=800&q=80",
     emotionalMatch: "Thrilling & Exciting",
+    vibes: ["joy", "energy", "adventure"],
     matchPercentage: 85,
     description: "Get your adrenaline pumping at one of India's best amusement parks with world-class rides and water attractions.",
     culturalHighlights: ["Water Rides", "Roller Coasters", "Family Entertainment"],
@@ -636,6 +674,7 @@ export const bangaloreDestinations: Destination[] = [
     country: "Near Bangalore",
     image: "https://images.unsplash.com/photo-1544735716-392fe2489ffa?w=800&q=80",
     emotionalMatch: "Wildlife & Educational",
+    vibes: ["nature", "adventure", "culture"],
     matchPercentage: 88,
     description: "Connect with nature through wildlife safaris and conservation experiences, perfect for families and nature enthusiasts.",
     culturalHighlights: ["Wildlife Safari", "Butterfly Park", "Zoo Experience"],
@@ -0,0 +1,52 @@
+// Emotion-to-vibe weight matrix used by the recommendation engine
+// Tune these numbers to change how each form answer influences ranking
+import type { Vibe } from "@/data/destinations";
+import type { EmotionId, DesiredChangeId } from "@/lib/emotionData";
+
+export type VibeWeights = Partial<Record<Vibe, number>>;
+
+// Points added per selected emotion; the destination's strongest matching vibe counts.
+// Negative weights steer away from vibes that would work against the feeling.
+export const emotionVibeWeights: Record<EmotionId, VibeWeights> = {
+  stressed: { peace: 8, nature: 5, spiritual: 3, energy: -2 },
+  joyful: { joy: 8, energy: 5, romance: 3, culture: 3 },
+  sad: { joy: 6, peace: 5, nature: 4, spiritual: 4 },
+  burnout: { peace: 8, nature: 6, spiritual: 4, luxury: 3, adventure: -3 },
+  excited: { adventure: 8, energy: 6, joy: 5 },
+  peaceful: { peace: 8, nature: 5, spiritual: 4, romance: 3 },
+  adventurous: { adventure: 8, nature: 5, energy: 4 },
+  reflective: { spiritual: 8, culture: 6, peace: 5 },
+};
+
+// Points added for the transformation the traveler is seeking
+export const desiredChangeVibeWeights: Record<DesiredChangeId, VibeWeights> = {
+  joy: { joy: 10, romance: 5, energy: 4 },
+  peace: { peace: 10, spiritual: 6, nature: 5 },
+  adventure: { adventure: 10, nature: 5, energy: 4 },
+  excitement: { energy: 10, adventure: 7, joy: 6 },
+};
+
+// Points added when the destination's ideal group size matches the traveler's
+export const groupSizeMatchBonus = 5;
+
+// Points added (negative) when the travel month falls outside the destination's best time
+export const offSeasonPenalty = -15;
+
+// Relevance vs variety when picking the final 2–3 results: 0 = top scores only, 1 = maximum variety
+export const diversityWeight = 0.35;
+
+// Up to this many random points are added per refresh so "Get Different Suggestions" varies the picks
+export const refreshJitter = 8;
+
+// Points added (negative) to destinations the traveler gave a thumbs-down
+export const dislikedPenalty = -25;
+
+// Points added at full similarity to a liked destination or completed trip; scaled down for weaker resemblance
+export const similarToLikedBonus = 12;
+
+// Points taken off a multi-stop trip for each hop between places that share a region but aren't listed as nearby
+export const comboLooseHopPenalty = 6;
+
+// Scales an emotion's vibe points by how strongly it's felt, from 1 (slightly) to 5 (intensely); 3 leaves them as-is
+export const intensityMultipliers: Record<number, number> = { 1: 0.4, 2: 0.7, 3: 1, 4: 1.3, 5: 1.6 };
+export const defaultIntensity = 3;
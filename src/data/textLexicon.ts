@@ -0,0 +1,140 @@
+// Lexicon and keyword topics for the offline description analyzer
+// Tune these lists to change what the recommender picks up from free text
+import type { Destination } from "@/data/destinations";
+import type { VibeWeights } from "@/data/emotionWeights";
+
+type PlaceCategory = NonNullable<Destination["touristPlaces"]>[number]["category"];
+
+// Word-level sentiment scores from -3 (very negative) to 3 (very positive)
+export const sentimentLexicon: Record<string, number> = {
+  // negative
+  overwhelmed: -3, exhausted: -3, miserable: -3, depressed: -3, burnout: -3, hopeless: -3,
+  stressed: -2, stress: -2, anxious: -2, anxiety: -2, sad: -2, lonely: -2, tired: -2, drained: -2,
+  frustrated: -2, angry: -2, upset: -2, worried: -2, heartbroken: -3, grief: -3, lost: -2,
+  bored: -1, stuck: -1, restless: -1, tense: -1, hectic: -1, pressure: -1, busy: -1, low: -1, numb: -2,
+  // positive
+  happy: 2, excited: 2, joy: 2, joyful: 2, love: 2, thrilled: 3, amazing: 3, wonderful: 3, great: 2,
+  good: 1, calm: 1, peaceful: 2, relaxed: 2, content: 1, grateful: 2, curious: 1, hopeful: 2,
+  inspired: 2, energetic: 2, fun: 2, celebrate: 2, celebrating: 2, adventurous: 1, refreshed: 2,
+};
+
+export const negationWords = ["not", "no", "never", "dont", "don't", "cant", "can't", "without", "hardly"];
+
+export type SentimentLabel = "positive" | "negative" | "neutral";
+
+// Vibes that suit the overall tone of the description
+export const sentimentVibeWeights: Record<Exclude<SentimentLabel, "neutral">, VibeWeights> = {
+  negative: { peace: 5, nature: 4, spiritual: 3 },
+  positive: { joy: 5, energy: 4, adventure: 3 },
+};
+
+export type KeywordTopicId =
+  | "beach"
+  | "mountains"
+  | "temple"
+  | "backwaters"
+  | "wildlife"
+  | "nature"
+  | "history"
+  | "food"
+  | "shopping"
+  | "quiet"
+  | "crowds"
+  | "thrill";
+
+export interface KeywordTopic {
+  id: KeywordTopicId;
+  label: string; // Shown to the user as "We picked up on…"
+  terms: string[]; // Words in the description that signal this topic
+  points?: number; // Added when a destination offers the topic
+  categories?: PlaceCategory[]; // Tourist place categories that offer the topic
+  placeTerms?: string[]; // Words in a destination's description, places or activities that offer the topic
+  vibes?: VibeWeights; // Vibe weights for topics that describe a mood rather than a place
+  keepsMeaningWhenNegated?: boolean; // "no crowds" asks for the same thing as "crowds"
+}
+
+export const keywordTopics: KeywordTopic[] = [
+  {
+    id: "beach",
+    label: "the beach",
+    terms: ["beach", "beaches", "sea", "ocean", "coast", "waves", "sand", "surf", "seaside"],
+    points: 6,
+    categories: ["beach"],
+    placeTerms: ["beach"],
+  },
+  {
+    id: "mountains",
+    label: "mountains and hills",
+    terms: ["mountain", "mountains", "hill", "hills", "trek", "trekking", "hike", "hiking", "peak", "mist", "misty"],
+    points: 6,
+    placeTerms: ["hill", "mountain", "peak", "trek"],
+  },
+  {
+    id: "temple",
+    label: "temples and spirituality",
+    terms: ["temple", "temples", "spiritual", "pray", "prayer", "divine", "pilgrimage", "sacred", "god"],
+    points: 6,
+    categories: ["temple"],
+  },
+  {
+    id: "backwaters",
+    label: "lakes and backwaters",
+    terms: ["backwater", "backwaters", "houseboat", "lake", "lakes", "boat", "boating", "river"],
+    points: 5,
+    placeTerms: ["backwater", "lake", "houseboat", "boating"],
+  },
+  {
+    id: "wildlife",
+    label: "wildlife",
+    terms: ["wildlife", "animals", "safari", "elephant", "elephants", "tiger", "tigers", "birds", "jungle"],
+    points: 5,
+    placeTerms: ["wildlife", "safari", "elephant", "bird", "tiger"],
+  },
+  {
+    id: "nature",
+    label: "nature and greenery",
+    terms: ["nature", "green", "greenery", "forest", "forests", "waterfall", "waterfalls", "garden", "gardens", "trees"],
+    points: 4,
+    categories: ["nature"],
+  },
+  {
+    id: "history",
+    label: "history and heritage",
+    terms: ["history", "historical", "heritage", "architecture", "palace", "palaces", "museum", "museums", "ancient"],
+    points: 5,
+    categories: ["historical", "cultural"],
+  },
+  {
+    id: "food",
+    label: "local food",
+    terms: ["food", "cuisine", "eat", "eating", "foodie", "seafood", "dishes"],
+    points: 3,
+    categories: ["food"],
+  },
+  {
+    id: "shopping",
+    label: "shopping",
+    terms: ["shopping", "shop", "mall", "malls", "boutique", "boutiques"],
+    points: 4,
+    categories: ["shopping"],
+  },
+  {
+    id: "quiet",
+    label: "wanting somewhere quiet",
+    terms: ["quiet", "calm", "silence", "silent", "solitude", "disconnect", "unwind", "recharge", "rest", "slow"],
+    vibes: { peace: 6, nature: 3, energy: -2 },
+  },
+  {
+    id: "crowds",
+    label: "getting away from crowds",
+    terms: ["crowd", "crowds", "crowded", "noisy", "noise", "chaos", "traffic", "city"],
+    vibes: { peace: 5, nature: 3, joy: -2, energy: -3 },
+    keepsMeaningWhenNegated: true,
+  },
+  {
+    id: "thrill",
+    label: "a taste for thrills",
+    terms: ["thrill", "thrills", "thrilling", "adrenaline", "rides", "adventure", "rafting", "climbing"],
+    vibes: { adventure: 6, energy: 4 },
+  },
+];
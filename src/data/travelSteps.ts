@@ -0,0 +1,20 @@
+// The stages every journey goes through, ticked off per plan as a checklist
+export const TRAVEL_STEP_IDS = ["research", "booking", "preparation", "arrival", "exploration", "completion"] as const;
+
+export type TravelStepId = (typeof TRAVEL_STEP_IDS)[number];
+
+export interface TravelStep {
+  id: TravelStepId;
+  title: string;
+  description: string;
+  icon: string;
+}
+
+export const travelSteps: TravelStep[] = [
+  { id: "research", title: "Research & Planning", description: "Gather information about the destination, weather, and local customs", icon: "📚" },
+  { id: "booking", title: "Accommodation & Transport", description: "Book hotels, flights, and local transportation", icon: "🏨" },
+  { id: "preparation", title: "Travel Preparation", description: "Pack essentials, check documents, and prepare for the journey", icon: "🎒" },
+  { id: "arrival", title: "Arrival & Check-in", description: "Reach destination, check into accommodation, and get oriented", icon: "✈️" },
+  { id: "exploration", title: "Explore & Experience", description: "Visit attractions, try local cuisine, and immerse in culture", icon: "🗺️" },
+  { id: "completion", title: "Journey Complete", description: "Reflect on experiences and share memories", icon: "🎉" },
+];
@@ -0,0 +1,166 @@
+// Single-file backup of everything the app keeps in this browser, and restoring one by merging or replacing
+import { z } from "zod";
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import type { CheckIn } from "@/contexts/CheckInContext";
+import type { FeedbackMap } from "@/contexts/FeedbackContext";
+import { lastModified, selectedPlanSchema } from "@/lib/planStorage";
+import { isSameRecord } from "@/lib/storage";
+import { checkInSchema } from "@/lib/checkInStorage";
+import { feedbackSchema } from "@/lib/feedbackStorage";
+
+const BACKUP_FORMAT = "emotion-escapes-backup";
+export const BACKUP_VERSION = 1;
+
+// Restoring a list with a repeated id would leave two copies of the same record
+const uniqueIds = (items: { id?: string }[]) => new Set(items.map(item => item.id)).size === items.length;
+
+const backupSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.string(),
+  plans: z.array(selectedPlanSchema).refine(uniqueIds, "the same plan appears more than once"),
+  checkIns: z.array(checkInSchema).refine(uniqueIds, "the same check-in appears more than once"),
+  preferences: z.object({
+    feedback: feedbackSchema,
+  }),
+});
+
+export interface BackupData {
+  plans: SelectedPlan[];
+  checkIns: CheckIn[];
+  feedback: FeedbackMap;
+}
+
+export interface Backup extends BackupData {
+  version: number;
+  exportedAt: string;
+}
+
+export const createBackupFile = ({ plans, checkIns, feedback }: BackupData) =>
+  JSON.stringify(
+    {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      plans,
+      checkIns,
+      preferences: { feedback },
+    },
+    null,
+    2
+  );
+
+export type ParsedBackup = { backup: Backup; error?: undefined } | { backup?: undefined; error: string };
+
+// Checks a file before anything is restored from it; the error explains what's wrong in plain words
+export const parseBackupFile = (text: string): ParsedBackup => {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(text);
+  } catch {
+    return { error: "This file isn't valid JSON." };
+  }
+
+  const header = stored as { format?: unknown; version?: unknown } | null;
+  if (typeof header !== "object" || header === null || header.format !== BACKUP_FORMAT) {
+    return { error: "This file isn't an Emotion Escapes backup." };
+  }
+  if (typeof header.version === "number" && header.version > BACKUP_VERSION) {
+    return { error: "This backup was made by a newer version of the app. Refresh the page and try again." };
+  }
+
+  const result = backupSchema.safeParse(stored);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `The backup is damaged: ${issue.path.join(".") || "file"}: ${issue.message}.` };
+  }
+
+  const { version, exportedAt, plans, checkIns, preferences } = result.data;
+  return {
+    backup: {
+      version,
+      exportedAt,
+      // Without strictNullChecks zod infers every key as optional; the schemas match these types
+      plans: plans as SelectedPlan[],
+      checkIns: checkIns as CheckIn[],
+      feedback: preferences.feedback as FeedbackMap,
+    },
+  };
+};
+
+export type RestoreMode = "merge" | "replace";
+
+// Merging keeps whatever is only on one side. For the same plan the newer edit wins; check-ins and
+// preferences already in this browser are kept over the backup's copy.
+export const getRestoredData = (current: BackupData, backup: BackupData, mode: RestoreMode): BackupData => {
+  if (mode === "replace") {
+    return { plans: backup.plans, checkIns: backup.checkIns, feedback: backup.feedback };
+  }
+
+  const plans = current.plans.map(plan => {
+    const backedUp = backup.plans.find(p => p.id === plan.id);
+    return backedUp && lastModified(backedUp) > lastModified(plan) ? backedUp : plan;
+  });
+  backup.plans.forEach(plan => {
+    if (!plans.some(p => p.id === plan.id)) plans.push(plan);
+  });
+
+  const checkIns = [
+    ...current.checkIns,
+    ...backup.checkIns.filter(checkIn => !current.checkIns.some(c => c.id === checkIn.id)),
+  ].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  return { plans, checkIns, feedback: { ...backup.feedback, ...current.feedback } };
+};
+
+export interface SectionDiff {
+  added: string[];
+  updated: string[];
+  removed: string[];
+  unchanged: number;
+}
+
+// Labels of the records a restore would add, change or remove
+const diffSection = <T>(current: T[], next: T[], getId: (item: T) => string, getLabel: (item: T) => string): SectionDiff => {
+  const diff: SectionDiff = { added: [], updated: [], removed: [], unchanged: 0 };
+  next.forEach(item => {
+    const existing = current.find(c => getId(c) === getId(item));
+    if (!existing) {
+      diff.added.push(getLabel(item));
+    } else if (!isSameRecord(existing, item)) {
+      diff.updated.push(getLabel(item));
+    } else {
+      diff.unchanged++;
+    }
+  });
+  current.forEach(item => {
+    if (!next.some(n => getId(n) === getId(item))) diff.removed.push(getLabel(item));
+  });
+  return diff;
+};
+
+export interface RestorePreview {
+  plans: SectionDiff;
+  checkIns: SectionDiff;
+  feedback: SectionDiff;
+}
+
+export const previewRestore = (current: BackupData, next: BackupData): RestorePreview => {
+  const feedbackEntries = (feedback: FeedbackMap) => Object.entries(feedback).map(([key, value]) => ({ key, value }));
+  return {
+    plans: diffSection(current.plans, next.plans, plan => plan.id, plan => plan.name),
+    checkIns: diffSection(
+      current.checkIns,
+      next.checkIns,
+      checkIn => checkIn.id,
+      checkIn => `${new Date(checkIn.createdAt).toLocaleDateString()} · ${checkIn.answers.emotions.join(", ")}`
+    ),
+    feedback: diffSection(
+      feedbackEntries(current.feedback),
+      feedbackEntries(next.feedback),
+      entry => entry.key,
+      // Keys are "region/name" (see getDestinationKey)
+      entry => `${entry.key.split("/").pop()} (${entry.value})`
+    ),
+  };
+};
@@ -0,0 +1,24 @@
+// Schema and localStorage store for the traveler's emotion check-ins
+import { z } from "zod";
+import type { CheckIn } from "@/contexts/CheckInContext";
+import { emotionDataSchema } from "@/lib/emotionData";
+import { createListStore } from "@/lib/storage";
+
+export const checkInSchema = z.object({
+  id: z.string(),
+  createdAt: z.string(),
+  answers: emotionDataSchema,
+  seed: z.number().optional(),
+  recommendations: z.array(z.string()),
+});
+
+export const checkInStore = createListStore<CheckIn>({
+  key: "emotionCheckIns",
+  version: 1,
+  // Without strictNullChecks zod infers every key as optional, so name the type it validates
+  itemSchema: checkInSchema as z.ZodType<CheckIn>,
+  migrations: {
+    // Version 0 was the bare check-ins array
+    0: data => data,
+  },
+});
@@ -0,0 +1,55 @@
+// Diversity-aware re-ranking (maximal marginal relevance) for recommendation picks
+import type { Destination } from "@/data/destinations";
+
+// How much each facet contributes to two destinations feeling "the same"; sums to 1
+const SIMILARITY_WEIGHTS = { region: 0.4, vibes: 0.35, categories: 0.25 };
+
+// "Near Bangalore" day trips belong to the same region as Bangalore itself
+const regionOf = (destination: Destination) => destination.country.replace(/^Near\s+/i, "");
+
+const jaccard = <T>(a: T[], b: T[]) => {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  if (setA.size === 0 && setB.size === 0) return 0;
+  const shared = [...setA].filter(item => setB.has(item)).length;
+  return shared / (setA.size + setB.size - shared);
+};
+
+const categoriesOf = (destination: Destination) => (destination.touristPlaces ?? []).map(place => place.category);
+
+// 0 (nothing in common) to 1 (same region, vibes and kinds of places)
+export const destinationSimilarity = (a: Destination, b: Destination) =>
+  SIMILARITY_WEIGHTS.region * (regionOf(a) === regionOf(b) ? 1 : 0) +
+  SIMILARITY_WEIGHTS.vibes * jaccard(a.vibes, b.vibes) +
+  SIMILARITY_WEIGHTS.categories * jaccard(categoriesOf(a), categoriesOf(b));
+
+// Greedily picks `count` items, trading relevance against similarity to what's already picked.
+// diversityWeight 0 ranks purely by relevance; 1 ignores relevance after the first pick.
+export const diversify = <T extends Destination>(
+  candidates: T[],
+  relevance: (item: T) => number,
+  count: number,
+  diversityWeight: number
+): T[] => {
+  const maxRelevance = Math.max(...candidates.map(relevance), 1);
+  const remaining = [...candidates];
+  const picked: T[] = [];
+
+  while (picked.length < count && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const redundancy = picked.length > 0
+        ? Math.max(...picked.map(item => destinationSimilarity(candidate, item)))
+        : 0;
+      const value = (1 - diversityWeight) * (relevance(candidate) / maxRelevance) - diversityWeight * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+    picked.push(...remaining.splice(bestIndex, 1));
+  }
+
+  return picked;
+};
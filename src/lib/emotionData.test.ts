@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { emotionDataSchema, emotionDataToSearchParams, parseEmotionDataParams, type EmotionData } from "@/lib/emotionData";
+
+const answers: EmotionData = {
+  emotions: ["joyful", "stressed"],
+  intensities: { joyful: 4, stressed: 2 },
+  description: "need a break",
+  desiredChange: "peace",
+  groupSize: "solo",
+  travelMonth: 2,
+};
+
+describe("parseEmotionDataParams", () => {
+  it("reads back what emotionDataToSearchParams wrote", () => {
+    expect(parseEmotionDataParams(emotionDataToSearchParams(answers))).toEqual(answers);
+  });
+
+  it("keeps each emotion once, with the intensity of its first mention", () => {
+    const params = new URLSearchParams("emotions=joyful,joyful,stressed,joyful&intensity=4,1,2,5&change=peace&group=solo");
+    const parsed = parseEmotionDataParams(params);
+    expect(parsed?.emotions).toEqual(["joyful", "stressed"]);
+    expect(parsed?.intensities).toEqual({ joyful: 4, stressed: 2 });
+  });
+
+  it("returns null for an incomplete check-in", () => {
+    expect(parseEmotionDataParams(new URLSearchParams("emotions=joyful"))).toBeNull();
+  });
+});
+
+describe("emotionDataSchema", () => {
+  it("rejects repeated emotions", () => {
+    expect(emotionDataSchema.safeParse({ ...answers, emotions: ["joyful", "joyful"] }).success).toBe(false);
+  });
+});
@@ -0,0 +1,95 @@
+// Typed answers from the emotion check-in, shared by EmotionForm and the recommender
+import { z } from "zod";
+
+export const EMOTION_IDS = [
+  "stressed",
+  "joyful",
+  "sad",
+  "burnout",
+  "excited",
+  "peaceful",
+  "adventurous",
+  "reflective",
+] as const;
+
+export const DESIRED_CHANGE_IDS = ["joy", "peace", "adventure", "excitement"] as const;
+
+export const GROUP_SIZE_IDS = ["solo", "couple", "small-group", "large-group"] as const;
+
+export type EmotionId = (typeof EMOTION_IDS)[number];
+export type DesiredChangeId = (typeof DESIRED_CHANGE_IDS)[number];
+export type GroupSizeId = (typeof GROUP_SIZE_IDS)[number];
+
+export const MAX_DESCRIPTION_LENGTH = 1000;
+
+export const emotionDataSchema = z.object({
+  emotions: z
+    .array(z.enum(EMOTION_IDS))
+    .min(1, "Pick at least one emotion")
+    // Each emotion is scored once; a repeated one would count its bonus again
+    .refine(emotions => new Set(emotions).size === emotions.length, "Pick each emotion only once"),
+  // How strongly each emotion is felt, 1–5; emotions left out count as defaultIntensity
+  intensities: z.record(z.enum(EMOTION_IDS), z.number().int().min(1).max(5)).optional(),
+  description: z
+    .string()
+    .trim()
+    .max(MAX_DESCRIPTION_LENGTH, `Please keep it under ${MAX_DESCRIPTION_LENGTH} characters`),
+  desiredChange: z.enum(DESIRED_CHANGE_IDS, { required_error: "Choose the change you're looking for" }),
+  groupSize: z.enum(GROUP_SIZE_IDS, { required_error: "Select your group size" }),
+  // Trip constraints; leaving one out means "no preference"
+  budget: z.enum(["$", "$$", "$$$"]).optional(),
+  minSafety: z.enum(["low", "medium", "high"]).optional(),
+  travelMonth: z.number().int().min(0).max(11).optional(), // 0-based, 0 = January
+});
+
+export type EmotionData = z.infer<typeof emotionDataSchema>;
+
+// Fields each EmotionForm step validates before moving on
+export const EMOTION_FORM_STEP_FIELDS = {
+  1: ["emotions", "intensities", "description"],
+  2: ["desiredChange", "groupSize"],
+  3: ["budget", "minSafety", "travelMonth"],
+} as const satisfies Record<1 | 2 | 3, readonly (keyof EmotionData)[]>;
+
+// Query-string form of a check-in so results survive a reload and can be shared.
+// travelMonth is 1-based in the URL (month=3 is March) to stay readable.
+export const emotionDataToSearchParams = (data: EmotionData) => {
+  const params = new URLSearchParams();
+  params.set("emotions", data.emotions.join(","));
+  if (data.intensities) {
+    params.set("intensity", data.emotions.map(emotion => data.intensities?.[emotion] ?? "").join(","));
+  }
+  if (data.description) params.set("about", data.description);
+  params.set("change", data.desiredChange);
+  params.set("group", data.groupSize);
+  if (data.budget) params.set("budget", data.budget);
+  if (data.minSafety) params.set("safety", data.minSafety);
+  if (data.travelMonth !== undefined) params.set("month", String(data.travelMonth + 1));
+  return params;
+};
+
+// Returns null unless the URL holds a complete, valid check-in
+export const parseEmotionDataParams = (params: URLSearchParams): EmotionData | null => {
+  if (!params.has("emotions")) return null;
+  const listed = params.get("emotions")!.split(",");
+  const intensities = params.get("intensity")?.split(",") ?? [];
+  // Hand-edited links can repeat an emotion; keep the first mention and its intensity
+  const emotions = listed.filter((emotion, index) => emotion && listed.indexOf(emotion) === index);
+  const month = params.get("month");
+  const result = emotionDataSchema.safeParse({
+    emotions,
+    intensities: Object.fromEntries(
+      emotions.flatMap(emotion => {
+        const intensity = intensities[listed.indexOf(emotion)];
+        return intensity ? [[emotion, Number(intensity)]] : [];
+      })
+    ),
+    description: params.get("about") ?? "",
+    desiredChange: params.get("change") ?? undefined,
+    groupSize: params.get("group") ?? undefined,
+    budget: params.get("budget") ?? undefined,
+    minSafety: params.get("safety") ?? undefined,
+    travelMonth: month ? Number(month) - 1 : undefined,
+  });
+  return result.success ? result.data : null;
+};
@@ -0,0 +1,33 @@
+// Schema and localStorage persistence for likes, dislikes and hidden destinations
+import { z } from "zod";
+import type { FeedbackMap } from "@/contexts/FeedbackContext";
+
+const FEEDBACK_KEY = "recommendationFeedback";
+
+export const feedbackSchema = z.record(z.enum(["like", "dislike", "hidden"]));
+
+// Unreadable entries are dropped one by one, so a single bad value doesn't cost the rest
+export const loadFeedback = (): FeedbackMap => {
+  let stored: unknown;
+  try {
+    const saved = localStorage.getItem(FEEDBACK_KEY);
+    stored = saved ? JSON.parse(saved) : {};
+  } catch {
+    console.warn(`Discarded unreadable "${FEEDBACK_KEY}" data`);
+    return {};
+  }
+  if (typeof stored !== "object" || stored === null || Array.isArray(stored)) return {};
+
+  const valueSchema = feedbackSchema.valueSchema;
+  return Object.fromEntries(
+    Object.entries(stored).filter(([, value]) => valueSchema.safeParse(value).success)
+  ) as FeedbackMap;
+};
+
+export const saveFeedback = (feedback: FeedbackMap) => {
+  try {
+    localStorage.setItem(FEEDBACK_KEY, JSON.stringify(feedback));
+  } catch (error) {
+    console.warn(`Could not save "${FEEDBACK_KEY}"`, error);
+  }
+};
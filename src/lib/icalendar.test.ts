@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { parseICalendar } from "@/lib/icalendar";
+
+const calendar = (...events: string[][]) =>
+  ["BEGIN:VCALENDAR", ...events.flatMap(event => ["BEGIN:VEVENT", ...event, "END:VEVENT"]), "END:VCALENDAR"].join("\r\n");
+
+describe("parseICalendar", () => {
+  it("reads all-day events with an exclusive end date", () => {
+    const { events, skipped } = parseICalendar(
+      calendar(["UID:p@emotion-escapes", "DTSTART;VALUE=DATE:20261010", "DTEND;VALUE=DATE:20261013"])
+    );
+    expect(events).toEqual([{ uid: "p@emotion-escapes", startDate: "2026-10-10", endDate: "2026-10-12", summary: undefined }]);
+    expect(skipped).toBe(0);
+  });
+
+  it("skips events with dates that don't exist", () => {
+    const { events, skipped } = parseICalendar(
+      calendar(
+        ["UID:a@emotion-escapes", "DTSTART;VALUE=DATE:20261399"],
+        ["UID:b@emotion-escapes", "DTSTART;VALUE=DATE:20260210", "DTEND;VALUE=DATE:20260231"]
+      )
+    );
+    expect(events).toEqual([]);
+    expect(skipped).toBe(2);
+  });
+});
@@ -0,0 +1,196 @@
+// iCalendar (RFC 5545) export of dated plans, and re-import of their dates by UID
+import { addDays, format } from "date-fns";
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import { fromPlanDate, hasDates, isPlanDate, toPlanDate, type DatedPlan, type PlanDates } from "@/lib/planDates";
+import { lastModified } from "@/lib/planStorage";
+import { downloadFile } from "@/lib/download";
+
+const PRODUCT_ID = "-//Emotion Escapes//Travel Plans//EN";
+// Plan ids are only unique within the app, so UIDs carry the app's domain-like suffix
+const UID_SUFFIX = "@emotion-escapes";
+const MAX_LINE_OCTETS = 75;
+
+export const getPlanUid = (plan: SelectedPlan) => `${encodeURIComponent(plan.id)}${UID_SUFFIX}`;
+
+// Returns null for events this app didn't export
+export const getPlanIdFromUid = (uid: string) => {
+  if (!uid.endsWith(UID_SUFFIX)) return null;
+  try {
+    return decodeURIComponent(uid.slice(0, -UID_SUFFIX.length));
+  } catch {
+    return null;
+  }
+};
+
+export const getPlanUrl = (plan: SelectedPlan, origin: string) =>
+  `${origin}/destination/${encodeURIComponent(plan.region)}/${encodeURIComponent(plan.name)}`;
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_match, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a character
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let limit = MAX_LINE_OCTETS;
+  for (const char of line) {
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+      limit = MAX_LINE_OCTETS - 1; // continuation lines start with a space
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+const formatDate = (date: string) => date.replace(/-/g, "");
+const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const eventStatus: Record<SelectedPlan['status'], string> = {
+  selected: "TENTATIVE",
+  ongoing: "CONFIRMED",
+  completed: "CONFIRMED",
+};
+
+const toEvent = (plan: DatedPlan, origin: string, now: Date) => {
+  const url = getPlanUrl(plan, origin);
+  const description = [
+    plan.description,
+    `Region: ${plan.region}`,
+    `Best time to visit: ${plan.bestTime}`,
+    url,
+  ].join("\n\n");
+  return [
+    "BEGIN:VEVENT",
+    `UID:${getPlanUid(plan)}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `LAST-MODIFIED:${formatDateTime(new Date(lastModified(plan)))}`,
+    `DTSTART;VALUE=DATE:${formatDate(plan.startDate)}`,
+    // All-day events end on the day after the last one
+    `DTEND;VALUE=DATE:${formatDate(toPlanDate(addDays(fromPlanDate(plan.endDate), 1)))}`,
+    `SUMMARY:${escapeText(`Trip to ${plan.name}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(`${plan.name}, ${plan.region}, India`)}`,
+    `URL:${url}`,
+    `CATEGORIES:${escapeText(plan.region)}`,
+    `STATUS:${eventStatus[plan.status]}`,
+    "TRANSP:TRANSPARENT",
+    "END:VEVENT",
+  ];
+};
+
+// Plans without dates have nothing to put on a calendar and are left out
+export const plansToICalendar = (plans: SelectedPlan[], origin: string, now = new Date()) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODUCT_ID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Emotion Escapes trips",
+    ...plans.filter(hasDates).flatMap(plan => toEvent(plan, origin, now)),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+};
+
+const getICalendarFileName = (plans: SelectedPlan[]) =>
+  plans.length === 1
+    ? `${plans[0].name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.ics`
+    : `emotion-escapes-trips-${format(new Date(), "yyyy-MM-dd")}.ics`;
+
+// Downloads the dated plans as an .ics file and returns how many were included
+export const exportPlansToICalendar = (plans: SelectedPlan[]) => {
+  const dated = plans.filter(hasDates);
+  downloadFile(getICalendarFileName(dated), plansToICalendar(dated, window.location.origin), "text/calendar;charset=utf-8");
+  return dated.length;
+};
+
+// null unless the value starts with a date that exists
+const readDate = (value: string) => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  const date = match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+  return date && isPlanDate(date) ? date : null;
+};
+
+export interface ImportedEvent extends PlanDates {
+  uid: string;
+  summary?: string;
+}
+
+export interface ParsedICalendar {
+  events: ImportedEvent[];
+  skipped: number; // events whose dates couldn't be read
+}
+
+// Reads the VEVENTs of a calendar file. Date-times are read as the date they fall on. Events
+// without a UID or start date are left out, since they can't be matched to a plan, and events
+// with dates that don't exist are counted as skipped.
+export const parseICalendar = (text: string): ParsedICalendar => {
+  const lines = text.replace(/\r\n|\r/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const events: ImportedEvent[] = [];
+  let skipped = 0;
+  let current: Record<string, { params: string; value: string }> | null = null;
+
+  lines.forEach(line => {
+    if (line === "BEGIN:VEVENT") {
+      current = {};
+      return;
+    }
+    if (line === "END:VEVENT" && current) {
+      const { UID, DTSTART, DTEND, SUMMARY } = current;
+      const startDate = DTSTART && readDate(DTSTART.value);
+      const end = DTEND && readDate(DTEND.value);
+      if (UID && DTSTART && (!startDate || (DTEND && !end))) {
+        skipped++;
+      } else if (UID && startDate) {
+        // All-day end dates are exclusive; timed events end on the day shown
+        const endDate = end && DTEND.params.includes("VALUE=DATE") && !DTEND.value.includes("T")
+          ? toPlanDate(addDays(fromPlanDate(end), -1))
+          : end;
+        events.push({
+          uid: UID.value,
+          startDate,
+          endDate: endDate && endDate >= startDate ? endDate : startDate,
+          summary: SUMMARY && unescapeText(SUMMARY.value),
+        });
+      }
+      current = null;
+      return;
+    }
+    if (!current) return;
+    const match = /^([A-Za-z0-9-]+)((?:;[^:]*)?):(.*)$/.exec(line);
+    if (match) current[match[1].toUpperCase()] = { params: match[2].toUpperCase(), value: match[3] };
+  });
+
+  return { events, skipped };
+};
+
+export interface ImportedDates {
+  updates: { plan: SelectedPlan; dates: PlanDates }[];
+  unchanged: number;
+  unmatched: number;
+}
+
+// Matches events back to the plans they were exported from; events from elsewhere are counted, not added
+export const matchImportedEvents = (plans: SelectedPlan[], events: ImportedEvent[]): ImportedDates => {
+  const result: ImportedDates = { updates: [], unchanged: 0, unmatched: 0 };
+  events.forEach(({ uid, startDate, endDate }) => {
+    const planId = getPlanIdFromUid(uid);
+    const plan = planId ? plans.find(p => p.id === planId) : undefined;
+    if (!plan) {
+      result.unmatched++;
+    } else if (plan.startDate === startDate && plan.endDate === endDate) {
+      result.unchanged++;
+    } else {
+      result.updates.push({ plan, dates: { startDate, endDate } });
+    }
+  });
+  return result;
+};
@@ -0,0 +1,93 @@
+// Planned travel dates: formatting, rescheduling, overlap detection and status suggestions
+import { addDays, differenceInCalendarDays, eachDayOfInterval, format, isValid, parseISO } from "date-fns";
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import { isInSeason } from "@/lib/seasons";
+
+// Calendar days without a time zone, so a trip doesn't shift a day for travelers in other zones
+export const PLAN_DATE_FORMAT = "yyyy-MM-dd";
+export const PLAN_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface PlanDates {
+  startDate: string;
+  endDate: string;
+}
+
+export type DatedPlan = SelectedPlan & PlanDates;
+
+export const toPlanDate = (date: Date) => format(date, PLAN_DATE_FORMAT);
+
+export const fromPlanDate = (value: string) => parseISO(value);
+
+// The pattern alone lets through days that don't exist, like 2026-13-99 or 2026-02-30
+export const isPlanDate = (value: string) => PLAN_DATE_PATTERN.test(value) && isValid(fromPlanDate(value));
+
+export const hasDates = (plan: SelectedPlan): plan is DatedPlan => Boolean(plan.startDate && plan.endDate);
+
+// Both ends count, so a trip that starts and ends on the same day lasts one day
+export const getTripLength = ({ startDate, endDate }: PlanDates) =>
+  differenceInCalendarDays(fromPlanDate(endDate), fromPlanDate(startDate)) + 1;
+
+export const formatPlanDates = ({ startDate, endDate }: PlanDates) => {
+  const start = fromPlanDate(startDate);
+  const end = fromPlanDate(endDate);
+  if (startDate === endDate) return format(end, "d MMM yyyy");
+  const startFormat = start.getFullYear() === end.getFullYear() ? "d MMM" : "d MMM yyyy";
+  return `${format(start, startFormat)} – ${format(end, "d MMM yyyy")}`;
+};
+
+export const coversDate = ({ startDate, endDate }: PlanDates, date: string) => startDate <= date && date <= endDate;
+
+// Moves a trip by whole days, keeping its length
+export const shiftPlanDates = ({ startDate, endDate }: PlanDates, days: number): PlanDates => ({
+  startDate: toPlanDate(addDays(fromPlanDate(startDate), days)),
+  endDate: toPlanDate(addDays(fromPlanDate(endDate), days)),
+});
+
+export type SeasonFit = 'in-season' | 'partly' | 'off-season';
+
+// How much of a trip falls within the destination's best time to visit
+export const getSeasonFit = (bestTime: string, dates: PlanDates): SeasonFit => {
+  const days = eachDayOfInterval({ start: fromPlanDate(dates.startDate), end: fromPlanDate(dates.endDate) });
+  const inSeason = days.filter(day => isInSeason(bestTime, day.getMonth())).length;
+  if (inSeason === days.length) return 'in-season';
+  return inSeason === 0 ? 'off-season' : 'partly';
+};
+
+// The date strings sort in calendar order, so they can be compared directly
+export const datesOverlap = (a: PlanDates, b: PlanDates) => a.startDate <= b.endDate && b.startDate <= a.endDate;
+
+// Finished journeys can't clash with anything, so only plans still ahead are compared
+export const getOverlappingPlans = (plan: SelectedPlan, plans: SelectedPlan[]): DatedPlan[] => {
+  if (!hasDates(plan) || plan.status === 'completed') return [];
+  return plans.filter(
+    (other): other is DatedPlan =>
+      other.id !== plan.id && other.status !== 'completed' && hasDates(other) && datesOverlap(plan, other)
+  );
+};
+
+export interface StatusSuggestion {
+  status: Exclude<SelectedPlan['status'], 'selected'>;
+  message: string;
+}
+
+// Suggests moving a plan along once its dates say the traveler has left or come back
+export const getStatusSuggestion = (plan: SelectedPlan, today = new Date()): StatusSuggestion | null => {
+  if (!hasDates(plan) || plan.status === 'completed') return null;
+  const todayDate = toPlanDate(today);
+
+  if (plan.endDate < todayDate) {
+    return {
+      status: 'completed',
+      message: `Your trip to ${plan.name} ended on ${format(fromPlanDate(plan.endDate), "d MMM")}. Mark it as completed?`,
+    };
+  }
+  if (plan.status === 'selected' && plan.startDate <= todayDate) {
+    return {
+      status: 'ongoing',
+      message: plan.startDate === todayDate
+        ? `Your trip to ${plan.name} starts today. Start the journey?`
+        : `Your trip to ${plan.name} started on ${format(fromPlanDate(plan.startDate), "d MMM")}. Start the journey?`,
+    };
+  }
+  return null;
+};
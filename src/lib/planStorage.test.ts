@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import { mergePlans, mergeTombstones, selectedPlanSchema } from "@/lib/planStorage";
+
+const plan = (id: string, updatedAt: string): SelectedPlan => ({
+  id,
+  name: id,
+  country: "Kerala",
+  image: "",
+  emotionalMatch: "",
+  matchPercentage: 80,
+  description: "",
+  culturalHighlights: [],
+  safetyLevel: "high",
+  bestTime: "Oct-Mar",
+  priceRange: "$$",
+  status: "selected",
+  dateAdded: "2026-01-01T00:00:00.000Z",
+  updatedAt,
+  region: "Kerala",
+});
+
+describe("mergeTombstones", () => {
+  it("keeps deletions made in either tab", () => {
+    const p = { id: "p", deletedAt: "2026-02-01T00:00:00.000Z" };
+    const q = { id: "q", deletedAt: "2026-02-02T00:00:00.000Z" };
+    expect(mergeTombstones([p], [q])).toEqual([p, q]);
+  });
+
+  it("keeps the newer deletion of the same plan", () => {
+    const older = { id: "p", deletedAt: "2026-02-01T00:00:00.000Z" };
+    const newer = { id: "p", deletedAt: "2026-02-03T00:00:00.000Z" };
+    expect(mergeTombstones([older], [newer])).toEqual([newer]);
+    expect(mergeTombstones([newer], [older])).toEqual([newer]);
+  });
+});
+
+describe("mergePlans", () => {
+  it("keeps the newer edit of each plan", () => {
+    const local = plan("p", "2026-02-02T00:00:00.000Z");
+    const remote = plan("p", "2026-02-01T00:00:00.000Z");
+    expect(mergePlans([local], [remote], "2026-02-01T00:00:00.000Z")).toEqual([local]);
+  });
+
+  it("drops plans deleted after their last change", () => {
+    const remote = [plan("p", "2026-02-01T00:00:00.000Z"), plan("q", "2026-02-01T00:00:00.000Z")];
+    const tombstones = [{ id: "p", deletedAt: "2026-02-02T00:00:00.000Z" }];
+    expect(mergePlans([], remote, "2026-02-03T00:00:00.000Z", tombstones).map(p => p.id)).toEqual(["q"]);
+  });
+
+  it("keeps plans changed after they were deleted", () => {
+    const remote = [plan("p", "2026-02-03T00:00:00.000Z")];
+    const tombstones = [{ id: "p", deletedAt: "2026-02-02T00:00:00.000Z" }];
+    expect(mergePlans([], remote, "2026-02-03T00:00:00.000Z", tombstones).map(p => p.id)).toEqual(["p"]);
+  });
+});
+
+describe("selectedPlanSchema", () => {
+  it("rejects travel dates that don't exist", () => {
+    const dated = { ...plan("p", "2026-02-01T00:00:00.000Z"), startDate: "2026-10-10", endDate: "2026-10-12" };
+    expect(selectedPlanSchema.safeParse(dated).success).toBe(true);
+    expect(selectedPlanSchema.safeParse({ ...dated, startDate: "2026-13-99" }).success).toBe(false);
+    expect(selectedPlanSchema.safeParse({ ...dated, endDate: "2026-02-30" }).success).toBe(false);
+  });
+});
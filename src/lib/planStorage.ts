@@ -0,0 +1,145 @@
+// Schema and localStorage store for the traveler's plans
+import { z } from "zod";
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import { tripReflectionSchema } from "@/lib/reflection";
+import { PLAN_DATE_PATTERN, isPlanDate } from "@/lib/planDates";
+import { TRAVEL_STEP_IDS } from "@/data/travelSteps";
+import { createListStore } from "@/lib/storage";
+
+export const PLAN_STORAGE_VERSION = 1;
+
+export const selectedPlanSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  country: z.string(),
+  image: z.string(),
+  emotionalMatch: z.string(),
+  matchPercentage: z.number(),
+  description: z.string(),
+  culturalHighlights: z.array(z.string()),
+  safetyLevel: z.enum(["low", "medium", "high"]),
+  bestTime: z.string(),
+  priceRange: z.enum(["$", "$$", "$$$"]),
+  status: z.enum(["selected", "ongoing", "completed"]),
+  dateAdded: z.string(),
+  completedAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+  region: z.enum(["Tamil Nadu", "Kerala", "Bangalore", "Near Bangalore"]),
+  startDate: z.string().regex(PLAN_DATE_PATTERN).refine(isPlanDate, "Not a real date").optional(),
+  endDate: z.string().regex(PLAN_DATE_PATTERN).refine(isPlanDate, "Not a real date").optional(),
+  trip: z.object({ id: z.string(), name: z.string(), order: z.number() }).optional(),
+  checkInId: z.string().optional(),
+  completedSteps: z.array(z.enum(TRAVEL_STEP_IDS)).optional(),
+  reflection: tripReflectionSchema.extend({ createdAt: z.string() }).optional(),
+});
+
+export const planStore = createListStore<SelectedPlan>({
+  key: "selectedPlans",
+  version: PLAN_STORAGE_VERSION,
+  // Without strictNullChecks zod infers every key as optional, so name the type it validates
+  itemSchema: selectedPlanSchema as z.ZodType<SelectedPlan>,
+  migrations: {
+    // Version 0 was the bare plans array; version 1 wraps the same list in the envelope
+    0: data => data,
+  },
+});
+
+// Remembers deleted plans so the deletion can be synced instead of the plan coming back from the server
+export interface PlanTombstone {
+  id: string;
+  deletedAt: string;
+}
+
+const planTombstoneSchema = z.object({ id: z.string(), deletedAt: z.string() });
+
+export const planTombstoneStore = createListStore<PlanTombstone>({
+  key: "deletedPlans",
+  version: 1,
+  itemSchema: planTombstoneSchema as z.ZodType<PlanTombstone>,
+  migrations: {},
+});
+
+// The plans of each account that signed out on this device, kept until that account signs back in
+// here so changes that hadn't synced yet aren't lost. One entry per account.
+export interface SignedOutPlans {
+  ownerId: string;
+  plans: SelectedPlan[];
+  tombstones: PlanTombstone[];
+}
+
+export const signedOutPlanStore = createListStore<SignedOutPlans>({
+  key: "signedOutPlans",
+  version: 1,
+  itemSchema: z.object({
+    ownerId: z.string(),
+    plans: z.array(selectedPlanSchema),
+    tombstones: z.array(planTombstoneSchema),
+  }) as z.ZodType<SignedOutPlans>,
+  migrations: {},
+});
+
+// Which account the stored plans belong to; absent while the traveler hasn't signed in
+const PLAN_OWNER_KEY = "selectedPlansOwner";
+
+export const loadPlanOwner = (): string | null => {
+  try {
+    return localStorage.getItem(PLAN_OWNER_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const savePlanOwner = (userId: string | null) => {
+  try {
+    if (userId) {
+      localStorage.setItem(PLAN_OWNER_KEY, userId);
+    } else {
+      localStorage.removeItem(PLAN_OWNER_KEY);
+    }
+  } catch (error) {
+    console.warn(`Could not save "${PLAN_OWNER_KEY}"`, error);
+  }
+};
+
+export const lastModified = (plan: SelectedPlan) => plan.updatedAt ?? plan.dateAdded;
+
+// A plan deleted after its last change stays deleted, whichever tab or device still has a copy
+const isDeleted = (plan: SelectedPlan, tombstones: PlanTombstone[]) =>
+  tombstones.some(tombstone => tombstone.id === plan.id && tombstone.deletedAt > lastModified(plan));
+
+export const withoutDeletedPlans = (plans: SelectedPlan[], tombstones: PlanTombstone[]) =>
+  plans.filter(plan => !isDeleted(plan, tombstones));
+
+// Folds plans saved by another tab into this tab's list. The newer edit of each plan wins, and a
+// plan missing from the other tab's list was deleted there unless this tab changed it afterwards.
+export const mergePlans = (
+  local: SelectedPlan[],
+  remote: SelectedPlan[],
+  remoteSavedAt: string,
+  tombstones: PlanTombstone[] = []
+) => {
+  const merged = remote.map(remotePlan => {
+    const localPlan = local.find(plan => plan.id === remotePlan.id);
+    return localPlan && lastModified(localPlan) > lastModified(remotePlan) ? localPlan : remotePlan;
+  });
+  local.forEach(localPlan => {
+    if (!remote.some(plan => plan.id === localPlan.id) && lastModified(localPlan) > remoteSavedAt) {
+      merged.push(localPlan);
+    }
+  });
+  return withoutDeletedPlans(merged, tombstones);
+};
+
+// Tabs delete plans independently, so keep every tombstone either one has; the newer deletion wins
+export const mergeTombstones = (local: PlanTombstone[], remote: PlanTombstone[]) => {
+  const merged = [...local];
+  remote.forEach(tombstone => {
+    const index = merged.findIndex(t => t.id === tombstone.id);
+    if (index < 0) {
+      merged.push(tombstone);
+    } else if (tombstone.deletedAt > merged[index].deletedAt) {
+      merged[index] = tombstone;
+    }
+  });
+  return merged;
+};
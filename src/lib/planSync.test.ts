@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import { createInMemoryPlanRemote, reconcilePlans, syncPlans, type PlanRemote, type RemotePlanRecord } from "@/lib/planSync";
+
+const plan = (id: string, updatedAt: string, name = id): SelectedPlan => ({
+  id,
+  name,
+  country: "Kerala",
+  image: "",
+  emotionalMatch: "",
+  matchPercentage: 80,
+  description: "",
+  culturalHighlights: [],
+  safetyLevel: "high",
+  bestTime: "Oct-Mar",
+  priceRange: "$$",
+  status: "selected",
+  dateAdded: "2026-01-01T00:00:00.000Z",
+  updatedAt,
+  region: "Kerala",
+});
+
+const record = (p: SelectedPlan): RemotePlanRecord => ({ id: p.id, plan: p, updatedAt: p.updatedAt!, deletedAt: null });
+
+const deleted = (id: string, deletedAt: string): RemotePlanRecord => ({ id, plan: null, updatedAt: deletedAt, deletedAt });
+
+describe("reconcilePlans", () => {
+  it("keeps the newer copy of a plan changed on both sides", () => {
+    const local = plan("p", "2026-02-02T00:00:00.000Z", "local");
+    const remote = plan("p", "2026-02-01T00:00:00.000Z", "remote");
+    const result = reconcilePlans([local], [], [record(remote)]);
+    expect(result.plans).toEqual([local]);
+    expect(result.toPush).toEqual([record(local)]);
+
+    const older = plan("p", "2026-01-15T00:00:00.000Z", "local");
+    const pulled = reconcilePlans([older], [], [record(remote)]);
+    expect(pulled.plans).toEqual([remote]);
+    expect(pulled.toPush).toEqual([]);
+  });
+
+  it("pushes a local deletion newer than the remote plan", () => {
+    const remote = plan("p", "2026-02-01T00:00:00.000Z");
+    const tombstone = { id: "p", deletedAt: "2026-02-02T00:00:00.000Z" };
+    const result = reconcilePlans([], [tombstone], [record(remote)]);
+    expect(result.plans).toEqual([]);
+    expect(result.tombstones).toEqual([tombstone]);
+    expect(result.toPush).toEqual([deleted("p", tombstone.deletedAt)]);
+  });
+
+  it("applies a remote deletion newer than the local plan", () => {
+    const local = plan("p", "2026-02-01T00:00:00.000Z");
+    const result = reconcilePlans([local], [], [deleted("p", "2026-02-02T00:00:00.000Z")]);
+    expect(result.plans).toEqual([]);
+    expect(result.tombstones).toEqual([{ id: "p", deletedAt: "2026-02-02T00:00:00.000Z" }]);
+  });
+
+  it("keeps a plan edited after it was deleted elsewhere", () => {
+    const local = plan("p", "2026-02-03T00:00:00.000Z");
+    const result = reconcilePlans([local], [], [deleted("p", "2026-02-02T00:00:00.000Z")]);
+    expect(result.plans).toEqual([local]);
+    expect(result.toPush).toEqual([record(local)]);
+  });
+});
+
+describe("syncPlans", () => {
+  it("brings two devices to the same plans", async () => {
+    const remote = createInMemoryPlanRemote();
+    const a = plan("a", "2026-02-01T00:00:00.000Z");
+    const b = plan("b", "2026-02-02T00:00:00.000Z");
+    await syncPlans(remote, [a], []);
+    const second = await syncPlans(remote, [b], []);
+    expect(second.plans).toEqual([b, a]);
+    expect(remote.records.size).toBe(2);
+  });
+
+  it("pushes changes made offline once the remote can be reached again", async () => {
+    const store = createInMemoryPlanRemote([record(plan("p", "2026-02-01T00:00:00.000Z"))]);
+    let online = false;
+    const remote: PlanRemote = {
+      pull: () => (online ? store.pull() : Promise.reject(new Error("offline"))),
+      push: records => (online ? store.push(records) : Promise.reject(new Error("offline"))),
+    };
+    const edited = plan("p", "2026-02-02T00:00:00.000Z", "edited offline");
+    const tombstone = { id: "q", deletedAt: "2026-02-02T00:00:00.000Z" };
+
+    await expect(syncPlans(remote, [edited], [tombstone])).rejects.toThrow("offline");
+    expect(store.records.get("p")?.plan?.name).toBe("p");
+
+    online = true;
+    await syncPlans(remote, [edited], [tombstone]);
+    expect(store.records.get("p")?.plan?.name).toBe("edited offline");
+    expect(store.records.get("q")?.deletedAt).toBe(tombstone.deletedAt);
+  });
+});
@@ -0,0 +1,133 @@
+// Offline-first sync of plans with a remote store. localStorage stays the source of truth;
+// a signed-in traveler's plans are reconciled with the remote copy by last-modified time.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "@/integrations/supabase/types";
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import { lastModified, selectedPlanSchema, type PlanTombstone } from "@/lib/planStorage";
+
+export interface RemotePlanRecord {
+  id: string;
+  plan: SelectedPlan | null; // null for a deleted plan
+  updatedAt: string;
+  deletedAt: string | null;
+}
+
+// Where plans are synced to; the signed-in traveler's Supabase account in the app, an in-memory stand-in in tests
+export interface PlanRemote {
+  pull: () => Promise<RemotePlanRecord[]>;
+  push: (records: RemotePlanRecord[]) => Promise<void>;
+}
+
+export interface ReconcileResult {
+  plans: SelectedPlan[];
+  tombstones: PlanTombstone[];
+  toPush: RemotePlanRecord[];
+}
+
+const toRecord = (plan: SelectedPlan): RemotePlanRecord => ({
+  id: plan.id,
+  plan,
+  updatedAt: lastModified(plan),
+  deletedAt: null,
+});
+
+const toDeletedRecord = (tombstone: PlanTombstone): RemotePlanRecord => ({
+  id: tombstone.id,
+  plan: null,
+  updatedAt: tombstone.deletedAt,
+  deletedAt: tombstone.deletedAt,
+});
+
+// For every plan id either side knows about, the most recent change wins: an edit, an addition or
+// a deletion. Whatever the local side has that is newer than the remote copy is queued for pushing.
+export const reconcilePlans = (
+  local: SelectedPlan[],
+  localTombstones: PlanTombstone[],
+  remote: RemotePlanRecord[]
+): ReconcileResult => {
+  const localRecords = new Map<string, RemotePlanRecord>([
+    ...localTombstones.map(tombstone => [tombstone.id, toDeletedRecord(tombstone)] as const),
+    ...local.map(plan => [plan.id, toRecord(plan)] as const),
+  ]);
+  const remoteRecords = new Map(remote.map(record => [record.id, record]));
+
+  const winners = new Map<string, RemotePlanRecord>();
+  const toPush: RemotePlanRecord[] = [];
+  new Set([...localRecords.keys(), ...remoteRecords.keys()]).forEach(id => {
+    const mine = localRecords.get(id);
+    const theirs = remoteRecords.get(id);
+    if (mine && (!theirs || mine.updatedAt > theirs.updatedAt)) {
+      winners.set(id, mine);
+      toPush.push(mine);
+    } else {
+      winners.set(id, theirs ?? mine!);
+    }
+  });
+
+  // Keep the local order, then anything new from the remote side
+  const order = [...local.map(plan => plan.id), ...remote.map(record => record.id)];
+  const plans: SelectedPlan[] = [];
+  new Set(order).forEach(id => {
+    const plan = winners.get(id)?.plan;
+    if (plan) plans.push(plan);
+  });
+  const tombstones = [...winners.values()]
+    .filter(record => record.deletedAt)
+    .map(record => ({ id: record.id, deletedAt: record.deletedAt! }));
+
+  return { plans, tombstones, toPush };
+};
+
+export const syncPlans = async (
+  remote: PlanRemote,
+  local: SelectedPlan[],
+  localTombstones: PlanTombstone[]
+): Promise<ReconcileResult> => {
+  const result = reconcilePlans(local, localTombstones, await remote.pull());
+  if (result.toPush.length > 0) {
+    await remote.push(result.toPush);
+  }
+  return result;
+};
+
+export const createSupabasePlanRemote = (client: SupabaseClient<Database>, userId: string): PlanRemote => ({
+  pull: async () => {
+    const { data, error } = await client.from("plans").select("id, data, updated_at, deleted_at");
+    if (error) throw error;
+    // Rows that don't pass the plan schema are ignored rather than overwriting good local data
+    return data.flatMap(row => {
+      // Postgres writes "+00:00" where the app writes "Z"; timestamps are compared as strings
+      const updatedAt = new Date(row.updated_at).toISOString();
+      if (row.deleted_at) {
+        return [{ id: row.id, plan: null, updatedAt, deletedAt: new Date(row.deleted_at).toISOString() }];
+      }
+      const parsed = selectedPlanSchema.safeParse(row.data);
+      return parsed.success ? [{ id: row.id, plan: parsed.data as SelectedPlan, updatedAt, deletedAt: null }] : [];
+    });
+  },
+  push: async records => {
+    const { error } = await client.from("plans").upsert(
+      records.map(record => ({
+        id: record.id,
+        user_id: userId,
+        data: record.plan as unknown as Json,
+        updated_at: record.updatedAt,
+        deleted_at: record.deletedAt,
+      })),
+      { onConflict: "user_id,id" }
+    );
+    if (error) throw error;
+  },
+});
+
+// Behaves like the Supabase remote for a single user, without a network
+export const createInMemoryPlanRemote = (initial: RemotePlanRecord[] = []): PlanRemote & { records: Map<string, RemotePlanRecord> } => {
+  const records = new Map(initial.map(record => [record.id, record]));
+  return {
+    records,
+    pull: async () => [...records.values()].map(record => ({ ...record })),
+    push: async pushed => {
+      pushed.forEach(record => records.set(record.id, { ...record }));
+    },
+  };
+};
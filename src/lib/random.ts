@@ -0,0 +1,35 @@
+// Seeded pseudo-random helpers so sampled results can be reproduced from a seed
+
+export type RandomSource = () => number;
+
+// mulberry32: small, fast 32-bit PRNG returning floats in [0, 1)
+export const createRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const createSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+export const nextSeed = (seed: number) => (seed + 1) >>> 0;
+
+export const parseSeed = (value: string | null | undefined) => {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  const seed = Number(value);
+  return seed <= 0xffffffff ? seed : undefined;
+};
+
+// Fisher–Yates shuffle; unlike sort(() => Math.random() - 0.5) every permutation is equally likely
+export const shuffle = <T>(items: readonly T[], random: RandomSource): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,293 @@
+// Emotion-based destination scoring shared by the recommendation UI
+import { tamilNaduDestinations, keralaDestinations, bangaloreDestinations, type Destination, type Vibe } from "@/data/destinations";
+import {
+  emotionVibeWeights,
+  desiredChangeVibeWeights,
+  groupSizeMatchBonus,
+  offSeasonPenalty,
+  diversityWeight as defaultDiversityWeight,
+  refreshJitter,
+  dislikedPenalty,
+  similarToLikedBonus,
+  intensityMultipliers,
+  defaultIntensity,
+  type VibeWeights,
+} from "@/data/emotionWeights";
+import { sentimentVibeWeights, type KeywordTopic } from "@/data/textLexicon";
+import { createRandom } from "@/lib/random";
+import { diversify, destinationSimilarity } from "@/lib/diversity";
+import { analyzeText, type TextAnalysis } from "@/lib/textAnalysis";
+import { isInSeason, MONTH_NAMES } from "@/lib/seasons";
+import type { EmotionData, EmotionId } from "@/lib/emotionData";
+
+const PRICE_ORDER: Destination["priceRange"][] = ["$", "$$", "$$$"];
+const SAFETY_ORDER: Destination["safetyLevel"][] = ["low", "medium", "high"];
+
+export const isWithinBudget = (destination: Destination, budget?: Destination["priceRange"]) =>
+  !budget || PRICE_ORDER.indexOf(destination.priceRange) <= PRICE_ORDER.indexOf(budget);
+
+export const meetsSafety = (destination: Destination, minSafety?: Destination["safetyLevel"]) =>
+  !minSafety || SAFETY_ORDER.indexOf(destination.safetyLevel) >= SAFETY_ORDER.indexOf(minSafety);
+
+export const getAllDestinations = (): Destination[] => [
+  ...tamilNaduDestinations,
+  ...keralaDestinations,
+  ...bangaloreDestinations,
+];
+
+// Stable identifier for a destination across the catalog, plans and feedback
+export const getDestinationKey = (destination: { name: string; country: string }) =>
+  `${destination.country}/${destination.name}`;
+
+// Past signals from the traveler, as destination keys
+export interface RecommendationFeedback {
+  liked: string[]; // thumbs-up and completed trips
+  disliked: string[];
+  hidden: string[];
+}
+
+export const INTENSITY_LABELS = ["Slightly", "Somewhat", "Moderately", "Very", "Intensely"];
+
+export const getIntensity = (emotionData: EmotionData, emotion: EmotionId) =>
+  Math.min(5, Math.max(1, Math.round(emotionData.intensities?.[emotion] ?? defaultIntensity)));
+
+const NO_FEEDBACK: RecommendationFeedback = { liked: [], disliked: [], hidden: [] };
+
+export interface MatchBonus {
+  source: "desiredChange" | "groupSize" | "emotion" | "description" | "season" | "feedback";
+  key: string;
+  vibe?: Vibe;
+  points: number;
+  reason: string;
+}
+
+export interface MatchExplanation {
+  baseMatch: number;
+  bonuses: MatchBonus[];
+  rawScore: number;
+  score: number;
+}
+
+export type ScoredDestination = Destination & { matchExplanation: MatchExplanation };
+
+// The strongest matching vibe decides the bonus, so a destination isn't rewarded for sheer tag count
+const getStrongestVibe = (weights: VibeWeights | undefined, vibes: Vibe[]) => {
+  if (!weights) return undefined;
+  return vibes
+    .filter(vibe => weights[vibe] !== undefined)
+    .reduce<{ vibe: Vibe; points: number } | undefined>(
+      (best, vibe) => (!best || weights[vibe] > best.points ? { vibe, points: weights[vibe] } : best),
+      undefined
+    );
+};
+
+const offersTopic = (destination: Destination, topic: KeywordTopic) => {
+  const places = destination.touristPlaces ?? [];
+  if (topic.categories?.some(category => places.some(place => place.category === category))) return true;
+  if (!topic.placeTerms) return false;
+  const text = [
+    destination.description,
+    ...places.map(place => `${place.name} ${place.description}`),
+    ...(destination.activities ?? []),
+  ].join(" ").toLowerCase();
+  return topic.placeTerms.some(term => text.includes(term));
+};
+
+export const explainMatch = (
+  destination: Destination,
+  emotionData: EmotionData,
+  textAnalysis: TextAnalysis = analyzeText(emotionData.description),
+  feedback: RecommendationFeedback = NO_FEEDBACK
+): MatchExplanation => {
+  const { vibes } = destination;
+  const bonuses: MatchBonus[] = [];
+
+  const changeMatch = getStrongestVibe(desiredChangeVibeWeights[emotionData.desiredChange], vibes);
+  if (changeMatch && changeMatch.points !== 0) {
+    bonuses.push({
+      source: "desiredChange",
+      key: emotionData.desiredChange,
+      vibe: changeMatch.vibe,
+      points: changeMatch.points,
+      reason: `You're seeking ${emotionData.desiredChange} and ${destination.name} has a ${changeMatch.vibe} vibe`,
+    });
+  }
+
+  if (destination.idealGroupSize && destination.idealGroupSize === emotionData.groupSize) {
+    bonuses.push({
+      source: "groupSize",
+      key: emotionData.groupSize,
+      points: groupSizeMatchBonus,
+      reason: `Ideal for ${emotionData.groupSize} travel`,
+    });
+  }
+
+  emotionData.emotions.forEach(emotion => {
+    const emotionMatch = getStrongestVibe(emotionVibeWeights[emotion], vibes);
+    if (!emotionMatch) return;
+    const intensity = getIntensity(emotionData, emotion);
+    const points = Math.round(emotionMatch.points * intensityMultipliers[intensity]);
+    if (points === 0) return;
+    const feeling = intensity === defaultIntensity ? emotion : `${INTENSITY_LABELS[intensity - 1].toLowerCase()} ${emotion}`;
+    bonuses.push({
+      source: "emotion",
+      key: emotion,
+      vibe: emotionMatch.vibe,
+      points,
+      reason: points > 0
+        ? `The ${emotionMatch.vibe} vibe suits feeling ${feeling}`
+        : `The ${emotionMatch.vibe} vibe may not help when feeling ${feeling}`,
+    });
+  });
+
+  const { sentiment } = textAnalysis;
+  if (sentiment.label !== "neutral") {
+    const toneMatch = getStrongestVibe(sentimentVibeWeights[sentiment.label], vibes);
+    if (toneMatch && toneMatch.points !== 0) {
+      bonuses.push({
+        source: "description",
+        key: `sentiment-${sentiment.label}`,
+        vibe: toneMatch.vibe,
+        points: toneMatch.points,
+        reason: sentiment.label === "negative"
+          ? `Your description sounds low, and the ${toneMatch.vibe} vibe can help`
+          : `Your description sounds upbeat, which fits the ${toneMatch.vibe} vibe`,
+      });
+    }
+  }
+
+  textAnalysis.topics.forEach(topic => {
+    if (topic.points && offersTopic(destination, topic)) {
+      bonuses.push({
+        source: "description",
+        key: topic.id,
+        points: topic.points,
+        reason: `You mentioned ${topic.label} and ${destination.name} offers it`,
+      });
+    }
+    const topicMatch = getStrongestVibe(topic.vibes, vibes);
+    if (topicMatch && topicMatch.points !== 0) {
+      bonuses.push({
+        source: "description",
+        key: topic.id,
+        vibe: topicMatch.vibe,
+        points: topicMatch.points,
+        reason: topicMatch.points > 0
+          ? `You mentioned ${topic.label}, which suits the ${topicMatch.vibe} vibe`
+          : `You mentioned ${topic.label}, which the ${topicMatch.vibe} vibe may not suit`,
+      });
+    }
+  });
+
+  if (emotionData.travelMonth !== undefined && !isInSeason(destination.bestTime, emotionData.travelMonth)) {
+    bonuses.push({
+      source: "season",
+      key: String(emotionData.travelMonth),
+      points: offSeasonPenalty,
+      reason: `${MONTH_NAMES[emotionData.travelMonth]} is outside the best time to visit (${destination.bestTime})`,
+    });
+  }
+
+  const key = getDestinationKey(destination);
+  if (feedback.disliked.includes(key)) {
+    bonuses.push({
+      source: "feedback",
+      key: "disliked",
+      points: dislikedPenalty,
+      reason: "You said this one wasn't for you",
+    });
+  } else {
+    const closest = getAllDestinations()
+      .filter(liked => feedback.liked.includes(getDestinationKey(liked)))
+      .map(liked => ({ liked, similarity: destinationSimilarity(destination, liked) }))
+      .sort((a, b) => b.similarity - a.similarity)[0];
+    const points = closest ? Math.round(closest.similarity * similarToLikedBonus) : 0;
+    if (points > 0) {
+      bonuses.push({
+        source: "feedback",
+        key: getDestinationKey(closest.liked),
+        points,
+        reason: closest.liked.name === destination.name
+          ? "You've enjoyed this one before"
+          : `Similar to ${closest.liked.name}, which you enjoyed`,
+      });
+    }
+  }
+
+  const rawScore = bonuses.reduce((total, bonus) => total + bonus.points, destination.matchPercentage);
+  return {
+    baseMatch: destination.matchPercentage,
+    bonuses,
+    rawScore,
+    score: Math.max(0, Math.min(100, rawScore)),
+  };
+};
+
+export interface RecommendationResult {
+  seed: number;
+  destinations: ScoredDestination[];
+  textAnalysis: TextAnalysis;
+  // How many catalog entries each hard constraint ruled out
+  excluded: { budget: number; safety: number; hidden: number };
+}
+
+export interface RecommendationOptions {
+  diversityWeight?: number;
+  feedback?: RecommendationFeedback;
+}
+
+// Scores every destination that passes the hard constraints, best first
+export const scoreEligibleDestinations = (emotionData: EmotionData, feedback: RecommendationFeedback = NO_FEEDBACK) => {
+  const textAnalysis = analyzeText(emotionData.description);
+  const allDestinations = getAllDestinations();
+  const excluded = {
+    budget: allDestinations.filter(d => !isWithinBudget(d, emotionData.budget)).length,
+    safety: allDestinations.filter(d => !meetsSafety(d, emotionData.minSafety)).length,
+    // Only hidden places that fit the budget and safety level, so this says whether hiding emptied the results
+    hidden: allDestinations.filter(
+      d => isWithinBudget(d, emotionData.budget) &&
+        meetsSafety(d, emotionData.minSafety) &&
+        feedback.hidden.includes(getDestinationKey(d))
+    ).length,
+  };
+
+  // Budget, safety and hidden places are hard limits; season and dislikes only lower the score
+  const eligible = allDestinations.filter(
+    d => isWithinBudget(d, emotionData.budget) &&
+      meetsSafety(d, emotionData.minSafety) &&
+      !feedback.hidden.includes(getDestinationKey(d))
+  );
+  const scored: ScoredDestination[] = eligible.map(destination => {
+    const matchExplanation = explainMatch(destination, emotionData, textAnalysis, feedback);
+    return { ...destination, matchPercentage: matchExplanation.score, matchExplanation };
+  });
+
+  // Sort by uncapped score so strong matches still rank apart once they hit 100%
+  scored.sort((a, b) => b.matchExplanation.rawScore - a.matchExplanation.rawScore);
+
+  return { scored, textAnalysis, excluded };
+};
+
+// The same emotionData, seed and feedback always produce the same recommendations. Feedback is
+// the viewer's own, so a shared link can show someone else different picks than it showed you.
+export const getRecommendations = (
+  emotionData: EmotionData,
+  seed: number,
+  { diversityWeight = defaultDiversityWeight, feedback = NO_FEEDBACK }: RecommendationOptions = {}
+): RecommendationResult => {
+  const random = createRandom(seed);
+  const { scored, textAnalysis, excluded } = scoreEligibleDestinations(emotionData, feedback);
+
+  // Take a pool of top matches to ensure quality, then pick 2–3 that differ from each other
+  const pool = scored.slice(0, Math.min(10, scored.length));
+  const count = Math.min(pool.length, 2 + Math.floor(random() * 2)); // 2 or 3
+  const jitter = new Map(pool.map(destination => [destination.name, random() * refreshJitter]));
+  const destinations = diversify(
+    pool,
+    destination => destination.matchExplanation.rawScore + (jitter.get(destination.name) ?? 0),
+    count,
+    diversityWeight
+  );
+
+  return { seed, destinations, textAnalysis, excluded };
+};
@@ -0,0 +1,80 @@
+// Post-trip reflections and how they compare with the check-in that led to the trip
+import { z } from "zod";
+import { EMOTION_IDS, type DesiredChangeId, type EmotionId } from "@/lib/emotionData";
+import type { CheckIn } from "@/contexts/CheckInContext";
+
+export const DELIVERED_CHANGE_OPTIONS = ["yes", "partly", "no"] as const;
+
+export const tripReflectionSchema = z.object({
+  emotions: z.array(z.enum(EMOTION_IDS)).min(1, "Pick at least one emotion"),
+  deliveredChange: z.enum(DELIVERED_CHANGE_OPTIONS, { required_error: "Let us know whether the trip delivered" }),
+  rating: z.number().int().min(1, "Give the trip a rating").max(5),
+  notes: z.string().trim().max(1000, "Please keep your notes under 1000 characters"),
+});
+
+export type TripReflectionAnswers = z.infer<typeof tripReflectionSchema>;
+
+export type TripReflection = TripReflectionAnswers & { createdAt: string };
+
+// Feelings that show the desired change happened
+const DESIRED_CHANGE_EMOTIONS: Record<DesiredChangeId, EmotionId[]> = {
+  joy: ["joyful", "excited"],
+  peace: ["peaceful", "reflective"],
+  adventure: ["adventurous", "excited"],
+  excitement: ["excited", "joyful", "adventurous"],
+};
+
+// Feelings a trip is meant to ease
+const HEAVY_EMOTIONS: EmotionId[] = ["stressed", "sad", "burnout"];
+
+const DELIVERED_POINTS: Record<TripReflection["deliveredChange"], number> = { yes: 2, partly: 1, no: 0 };
+
+export type GoalVerdict = "met" | "partly" | "not-met";
+
+export interface GoalOutcome {
+  verdict: GoalVerdict;
+  desiredChange?: DesiredChangeId; // missing when the plan has no originating check-in
+  reached: EmotionId[]; // target feelings felt after the trip
+  eased: EmotionId[]; // heavy feelings from the check-in that are gone
+  lingering: EmotionId[]; // heavy feelings from the check-in that remain
+}
+
+// Without a check-in only the traveler's own answer counts; with one, what they feel now
+// has to back it up: "met" needs a yes, a target feeling and no heavy feelings left over.
+export const compareWithCheckIn = (reflection: TripReflection, checkIn?: CheckIn): GoalOutcome => {
+  if (!checkIn) {
+    const verdict = reflection.deliveredChange === "yes" ? "met" : reflection.deliveredChange === "partly" ? "partly" : "not-met";
+    return { verdict, reached: [], eased: [], lingering: [] };
+  }
+
+  const { desiredChange, emotions: before } = checkIn.answers;
+  const after = reflection.emotions;
+  const reached = DESIRED_CHANGE_EMOTIONS[desiredChange].filter(emotion => after.includes(emotion));
+  const heavyBefore = before.filter(emotion => HEAVY_EMOTIONS.includes(emotion));
+  const eased = heavyBefore.filter(emotion => !after.includes(emotion));
+  const lingering = heavyBefore.filter(emotion => after.includes(emotion));
+
+  const points = DELIVERED_POINTS[reflection.deliveredChange] + (reached.length > 0 ? 1 : 0) + (lingering.length === 0 ? 1 : 0);
+  const verdict = points === 4 ? "met" : points <= 1 ? "not-met" : "partly";
+
+  return { verdict, desiredChange, reached, eased, lingering };
+};
+
+const listOf = (items: string[]) =>
+  items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+export const describeGoalOutcome = (outcome: GoalOutcome) => {
+  const { verdict, desiredChange, reached, eased, lingering } = outcome;
+  if (!desiredChange) {
+    if (verdict === "met") return "You said the trip delivered what you were after.";
+    return verdict === "partly" ? "You said the trip partly delivered." : "You said the trip didn't deliver this time.";
+  }
+  const sentences = [
+    reached.length > 0
+      ? `You were after ${desiredChange} and came back feeling ${listOf(reached)}.`
+      : `You were after ${desiredChange} but didn't come back feeling it.`,
+  ];
+  if (eased.length > 0) sentences.push(`No longer ${listOf(eased)}.`);
+  if (lingering.length > 0) sentences.push(`Still ${listOf(lingering)}.`);
+  return sentences.join(" ");
+};
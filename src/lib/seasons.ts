@@ -0,0 +1,82 @@
+// Structured best-time-to-visit months parsed from the free-text bestTime field
+// ("Apr-Jun", "Oct-Mar", "Year-round", "Nov-Feb, Jun-Aug")
+
+export const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+// 0-based inclusive range; start > end wraps past December (Oct-Mar)
+export interface MonthRange {
+  start: number;
+  end: number;
+}
+
+export interface BestMonths {
+  yearRound: boolean;
+  ranges: MonthRange[];
+  months: boolean[]; // 12 entries, true when the month is a good time to visit
+}
+
+const monthIndex = (value: string) => {
+  const prefix = value.trim().slice(0, 3).toLowerCase();
+  return prefix.length === 3 ? MONTH_NAMES.findIndex(month => month.slice(0, 3).toLowerCase() === prefix) : -1;
+};
+
+const expandRange = ({ start, end }: MonthRange) => {
+  const months: number[] = [];
+  for (let month = start; ; month = (month + 1) % 12) {
+    months.push(month);
+    if (month === end) return months;
+  }
+};
+
+// Returns null when the text can't be read as months
+export const parseBestTime = (bestTime: string): BestMonths | null => {
+  if (/year[\s-]?round|all year/i.test(bestTime)) {
+    return { yearRound: true, ranges: [{ start: 0, end: 11 }], months: Array(12).fill(true) };
+  }
+
+  const ranges: MonthRange[] = [];
+  for (const part of bestTime.split(/[,;/&]|\band\b/i)) {
+    if (!part.trim()) continue;
+    const [from, to = from, ...rest] = part.split(/\s*(?:-|–|—|\bto\b)\s*/i);
+    const start = monthIndex(from);
+    const end = monthIndex(to);
+    if (rest.length > 0 || start < 0 || end < 0) return null;
+    ranges.push({ start, end });
+  }
+  if (ranges.length === 0) return null;
+
+  const months: boolean[] = Array(12).fill(false);
+  ranges.forEach(range => expandRange(range).forEach(month => { months[month] = true; }));
+  return { yearRound: months.every(Boolean), ranges, months };
+};
+
+const cache = new Map<string, BestMonths | null>();
+
+export const getBestMonths = (bestTime: string) => {
+  if (!cache.has(bestTime)) cache.set(bestTime, parseBestTime(bestTime));
+  return cache.get(bestTime) ?? null;
+};
+
+// month is 0-based (0 = January); unreadable bestTime values are treated as always in season
+export const isInSeason = (bestTime: string, month: number) => {
+  const bestMonths = getBestMonths(bestTime);
+  return !bestMonths || bestMonths.months[month];
+};
+
+// 0 when in season now, otherwise how many months until the season starts
+export const monthsUntilInSeason = (bestTime: string, month: number) => {
+  const bestMonths = getBestMonths(bestTime);
+  if (!bestMonths) return 0;
+  for (let offset = 0; offset < 12; offset++) {
+    if (bestMonths.months[(month + offset) % 12]) return offset;
+  }
+  return 0;
+};
+
+// Comparator putting places in season now first, then those whose season starts soonest
+export const bySeasonality = (month: number = new Date().getMonth()) =>
+  <T extends { bestTime: string }>(a: T, b: T) =>
+    monthsUntilInSeason(a.bestTime, month) - monthsUntilInSeason(b.bestTime, month);
@@ -0,0 +1,157 @@
+// Versioned, validated localStorage persistence for lists of records
+import { z } from "zod";
+
+// What gets written to localStorage; anything else under the key is treated as version 0
+interface StorageEnvelope {
+  version: number;
+  savedAt: string;
+  data: unknown;
+}
+
+export interface ListStoreOptions<T> {
+  key: string;
+  version: number;
+  itemSchema: z.ZodType<T>;
+  // migrations[n] upgrades data saved at version n to version n + 1.
+  // Version 0 is whatever was stored before the envelope existed.
+  migrations: Record<number, (data: unknown) => unknown>;
+}
+
+export interface ListStore<T> {
+  key: string;
+  load: () => T[];
+  save: (items: T[]) => void;
+  // Calls back with the validated list, and when it was saved, whenever another tab saves under this key
+  subscribe: (onChange: (items: T[], savedAt: string) => void) => () => void;
+}
+
+const isEnvelope = (value: unknown): value is StorageEnvelope =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof (value as StorageEnvelope).version === "number" &&
+  "data" in value;
+
+// Keeps unreadable data under a side key instead of throwing it away, so it can be recovered by hand
+const quarantine = (key: string, raw: string, reason: string) => {
+  const prefix = `${key}.quarantine.`;
+  try {
+    // The same bad data can be read more than once (e.g. lazy state in StrictMode); keep one copy
+    for (let index = 0; index < localStorage.length; index++) {
+      const existingKey = localStorage.key(index);
+      if (existingKey?.startsWith(prefix) && localStorage.getItem(existingKey) === raw) return;
+    }
+    let quarantineKey = `${prefix}${Date.now()}`;
+    for (let suffix = 1; localStorage.getItem(quarantineKey) !== null; suffix++) {
+      quarantineKey = `${prefix}${Date.now()}-${suffix}`;
+    }
+    localStorage.setItem(quarantineKey, raw);
+    console.warn(`Quarantined unreadable "${key}" data as "${quarantineKey}": ${reason}`);
+  } catch {
+    // Storage full or unavailable; there is nowhere to keep a copy
+    console.warn(`Discarded unreadable "${key}" data: ${reason}`);
+  }
+};
+
+export const createListStore = <T>({ key, version, itemSchema, migrations }: ListStoreOptions<T>): ListStore<T> => {
+  const parse = (raw: string): T[] => {
+    let stored: unknown;
+    try {
+      stored = JSON.parse(raw);
+    } catch {
+      quarantine(key, raw, "not valid JSON");
+      return [];
+    }
+
+    let data = isEnvelope(stored) ? stored.data : stored;
+    const storedVersion = isEnvelope(stored) ? stored.version : 0;
+    if (storedVersion > version) {
+      quarantine(key, raw, `saved by a newer version (${storedVersion} > ${version})`);
+      return [];
+    }
+
+    try {
+      for (let from = storedVersion; from < version; from++) {
+        const migrate = migrations[from];
+        if (!migrate) throw new Error(`no migration from version ${from}`);
+        data = migrate(data);
+      }
+    } catch (error) {
+      quarantine(key, raw, error instanceof Error ? error.message : "migration failed");
+      return [];
+    }
+
+    if (!Array.isArray(data)) {
+      quarantine(key, raw, "expected a list");
+      return [];
+    }
+
+    // One bad record shouldn't cost the traveler every other one
+    const valid: T[] = [];
+    const invalid: unknown[] = [];
+    data.forEach(item => {
+      const result = itemSchema.safeParse(item);
+      if (result.success) {
+        valid.push(result.data);
+      } else {
+        invalid.push(item);
+      }
+    });
+    if (invalid.length > 0) {
+      quarantine(key, JSON.stringify(invalid), `${invalid.length} record(s) failed validation`);
+    }
+    return valid;
+  };
+
+  const load = () => {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? parse(raw) : [];
+    } catch {
+      // localStorage itself can throw, e.g. when disabled by privacy settings
+      return [];
+    }
+  };
+
+  const save = (items: T[]) => {
+    const envelope: StorageEnvelope = { version, savedAt: new Date().toISOString(), data: items };
+    try {
+      localStorage.setItem(key, JSON.stringify(envelope));
+    } catch (error) {
+      console.warn(`Could not save "${key}"`, error);
+    }
+  };
+
+  // Data saved before the envelope has no timestamp; the epoch sorts it before any real change
+  const savedAtOf = (raw: string) => {
+    try {
+      const stored: unknown = JSON.parse(raw);
+      return isEnvelope(stored) && typeof stored.savedAt === "string" ? stored.savedAt : new Date(0).toISOString();
+    } catch {
+      return new Date(0).toISOString();
+    }
+  };
+
+  // The storage event only fires in the other tabs, never in the one that saved
+  const subscribe = (onChange: (items: T[], savedAt: string) => void) => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== key || event.newValue === null) return;
+      onChange(parse(event.newValue), savedAtOf(event.newValue));
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  };
+
+  return { key, load, save, subscribe };
+};
+
+// Records read back through a schema come out with their keys in schema order, so compare sorted
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+  );
+};
+
+export const isSameRecord = (a: unknown, b: unknown) => JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { analyzeText } from "@/lib/textAnalysis";
+
+const topicIds = (text: string) => analyzeText(text).topics.map(topic => topic.id);
+
+describe("analyzeText", () => {
+  it("picks up topics mentioned in the description", () => {
+    expect(topicIds("I want adventure and a beach")).toEqual(["thrill", "beach"]);
+  });
+
+  it("skips negated topics", () => {
+    expect(topicIds("no adventure or thrills please")).toEqual([]);
+    expect(topicIds("not the beach this time")).toEqual([]);
+  });
+
+  it("keeps topics that mean the same when negated", () => {
+    expect(topicIds("no crowds")).toEqual(["crowds"]);
+  });
+
+  it("flips the sentiment of negated words", () => {
+    expect(analyzeText("not happy").sentiment.label).toBe("negative");
+  });
+
+  it("ignores words that only exist on Object.prototype", () => {
+    const { sentiment } = analyzeText("constructor toString");
+    expect(sentiment.score).toBe(0);
+    expect(sentiment.comparative).toBe(0);
+  });
+});
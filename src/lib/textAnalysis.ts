@@ -0,0 +1,71 @@
+// Offline, lexicon-based analysis of the free-text feeling description
+import {
+  sentimentLexicon,
+  negationWords,
+  keywordTopics,
+  type KeywordTopic,
+  type SentimentLabel,
+} from "@/data/textLexicon";
+
+export interface TextAnalysis {
+  sentiment: {
+    score: number;
+    comparative: number; // score per word, comparable across description lengths
+    label: SentimentLabel;
+  };
+  topics: KeywordTopic[];
+  matchedTerms: string[];
+}
+
+// Negation looks back this many words ("not feeling happy")
+const NEGATION_WINDOW = 2;
+
+const tokenize = (text: string) => text.toLowerCase().match(/[a-z']+/g) ?? [];
+
+// "or" and "nor" don't count towards the window, so "no adventure or thrills" negates both
+const LIST_WORDS = ["or", "nor"];
+
+const isNegated = (tokens: string[], index: number) => {
+  let counted = 0;
+  for (let i = index - 1; i >= 0 && counted < NEGATION_WINDOW; i--) {
+    if (LIST_WORDS.includes(tokens[i])) continue;
+    if (negationWords.includes(tokens[i])) return true;
+    counted++;
+  }
+  return false;
+};
+
+export const analyzeText = (text: string): TextAnalysis => {
+  const tokens = tokenize(text);
+  let score = 0;
+  const matchedTerms: string[] = [];
+  const topics: KeywordTopic[] = [];
+
+  tokens.forEach((token, index) => {
+    const negated = isNegated(tokens, index);
+
+    // Own keys only, so words like "constructor" don't pick up Object.prototype members
+    if (Object.prototype.hasOwnProperty.call(sentimentLexicon, token)) {
+      const wordScore = sentimentLexicon[token];
+      score += negated ? -wordScore : wordScore;
+    }
+
+    keywordTopics.forEach(topic => {
+      if (!topic.terms.includes(token)) return;
+      // "no beach please" or "no thrills" rules the topic out; only topics like "no crowds" read the same either way
+      if (negated && !topic.keepsMeaningWhenNegated) return;
+      if (!matchedTerms.includes(token)) matchedTerms.push(token);
+      if (!topics.includes(topic)) topics.push(topic);
+    });
+  });
+
+  return {
+    sentiment: {
+      score,
+      comparative: tokens.length > 0 ? score / tokens.length : 0,
+      label: score > 0 ? "positive" : score < 0 ? "negative" : "neutral",
+    },
+    topics,
+    matchedTerms,
+  };
+};
@@ -0,0 +1,45 @@
+// Journey progress and status, derived from the travel steps a traveler has ticked off
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import { TRAVEL_STEP_IDS, travelSteps, type TravelStepId } from "@/data/travelSteps";
+
+// The steps done before leaving; an ongoing journey without a checklist is assumed to have done these
+const PRE_TRIP_STEPS: TravelStepId[] = ["research", "booking", "preparation"];
+
+// Kept in step order so the stored list reads the same however the steps were ticked
+const inStepOrder = (steps: TravelStepId[]) => TRAVEL_STEP_IDS.filter(id => steps.includes(id));
+
+// Plans saved before the checklist existed only have a status; read it as the steps it implies
+export const getCompletedSteps = (plan: SelectedPlan): TravelStepId[] => {
+  if (plan.completedSteps) return inStepOrder(plan.completedSteps);
+  if (plan.status === "completed") return [...TRAVEL_STEP_IDS];
+  return plan.status === "ongoing" ? PRE_TRIP_STEPS : [];
+};
+
+export const getStatusForSteps = (steps: TravelStepId[]): SelectedPlan["status"] => {
+  if (steps.length === 0) return "selected";
+  return TRAVEL_STEP_IDS.every(id => steps.includes(id)) ? "completed" : "ongoing";
+};
+
+// The checklist a manual status change implies. Ongoing keeps a partly done checklist as it is.
+export const getStepsForStatus = (plan: SelectedPlan, status: SelectedPlan["status"]): TravelStepId[] => {
+  const steps = getCompletedSteps(plan);
+  if (status === "selected") return [];
+  if (status === "completed") return [...TRAVEL_STEP_IDS];
+  if (getStatusForSteps(steps) === "ongoing") return steps;
+  // Starting a journey puts the pre-trip steps behind it; reopening a finished one unticks the last step
+  return steps.length === 0 ? PRE_TRIP_STEPS : TRAVEL_STEP_IDS.slice(0, -1);
+};
+
+export const toggleStep = (plan: SelectedPlan, stepId: TravelStepId): TravelStepId[] => {
+  const steps = getCompletedSteps(plan);
+  return inStepOrder(steps.includes(stepId) ? steps.filter(id => id !== stepId) : [...steps, stepId]);
+};
+
+export const getStepProgress = (plan: SelectedPlan) =>
+  Math.round((getCompletedSteps(plan).length / TRAVEL_STEP_IDS.length) * 100);
+
+// The first step not yet ticked off, or undefined once every step is done
+export const getCurrentStep = (plan: SelectedPlan) => {
+  const steps = getCompletedSteps(plan);
+  return travelSteps.find(step => !steps.includes(step.id));
+};
@@ -0,0 +1,91 @@
+// Aggregations behind the Dashboard's travel insights charts
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import type { CheckIn } from "@/contexts/CheckInContext";
+import { EMOTION_IDS, type EmotionId } from "@/lib/emotionData";
+
+// Monthly charts show at most this many of the most recent months
+const MAX_MONTHS = 12;
+
+export const PLAN_REGIONS = ["Tamil Nadu", "Kerala", "Bangalore"] as const;
+export const PLAN_STATUSES: SelectedPlan["status"][] = ["selected", "ongoing", "completed"];
+export const PRICE_RANGES: SelectedPlan["priceRange"][] = ["$", "$$", "$$$"];
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}`;
+
+const monthLabel = (date: Date) => date.toLocaleDateString(undefined, { month: "short", year: "2-digit" });
+
+const endOfMonth = (month: Date) => new Date(month.getFullYear(), month.getMonth() + 1, 0, 23, 59, 59, 999);
+
+// First day of every month from the earliest date through `now`
+const getMonthRange = (dates: Date[], now: Date) => {
+  if (dates.length === 0) return [];
+  const earliest = new Date(Math.min(...dates.map(date => date.getTime())));
+  const months: Date[] = [];
+  for (
+    let month = new Date(earliest.getFullYear(), earliest.getMonth(), 1);
+    month <= now;
+    month = new Date(month.getFullYear(), month.getMonth() + 1, 1)
+  ) {
+    months.push(month);
+  }
+  return months.slice(-MAX_MONTHS);
+};
+
+// "Near Bangalore" day trips are counted with Bangalore
+const regionOf = (plan: SelectedPlan) => plan.region.replace(/^Near\s+/i, "");
+
+export type EmotionTrendPoint = { month: string } & Record<EmotionId, number>;
+
+// How many check-ins named each emotion, per month
+export const getEmotionTrend = (checkIns: CheckIn[], now = new Date()): EmotionTrendPoint[] =>
+  getMonthRange(checkIns.map(checkIn => new Date(checkIn.createdAt)), now).map(month => {
+    const point = {
+      month: monthLabel(month),
+      ...Object.fromEntries(EMOTION_IDS.map(emotion => [emotion, 0])),
+    } as EmotionTrendPoint;
+    checkIns
+      .filter(checkIn => monthKey(new Date(checkIn.createdAt)) === monthKey(month))
+      .forEach(checkIn => checkIn.answers.emotions.forEach(emotion => { point[emotion] += 1; }));
+    return point;
+  });
+
+export type RegionStatusPoint = { region: string } & Record<SelectedPlan["status"], number>;
+
+export const getPlansByRegionAndStatus = (plans: SelectedPlan[]): RegionStatusPoint[] =>
+  PLAN_REGIONS.map(region => {
+    const inRegion = plans.filter(plan => regionOf(plan) === region);
+    return {
+      region,
+      ...Object.fromEntries(PLAN_STATUSES.map(status => [status, inRegion.filter(plan => plan.status === status).length])),
+    } as RegionStatusPoint;
+  });
+
+export const getPriceRangeDistribution = (plans: SelectedPlan[]) =>
+  PRICE_RANGES.map(priceRange => ({
+    priceRange,
+    count: plans.filter(plan => plan.priceRange === priceRange).length,
+  }));
+
+export interface CompletionRatePoint {
+  month: string;
+  rate: number; // 0–100
+  completed: number;
+  total: number;
+}
+
+// Of the plans added by the end of each month, the share completed by then.
+// Plans completed before completedAt was recorded count from the day they were added.
+export const getCompletionRateByMonth = (plans: SelectedPlan[], now = new Date()): CompletionRatePoint[] =>
+  getMonthRange(plans.map(plan => new Date(plan.dateAdded)), now).map(month => {
+    const cutoff = endOfMonth(month).getTime();
+    const added = plans.filter(plan => new Date(plan.dateAdded).getTime() <= cutoff);
+    const completed = added.filter(plan =>
+      plan.status === "completed" && new Date(plan.completedAt ?? plan.dateAdded).getTime() <= cutoff
+    ).length;
+    return {
+      month: monthLabel(month),
+      rate: added.length > 0 ? Math.round((completed / added.length) * 100) : 0,
+      completed,
+      total: added.length,
+    };
+  });
@@ -0,0 +1,114 @@
+// Multi-stop trip suggestions built from destinations that sit near each other
+import type { Destination } from "@/data/destinations";
+import { comboLooseHopPenalty, refreshJitter } from "@/data/emotionWeights";
+import { createRandom } from "@/lib/random";
+import type { EmotionData } from "@/lib/emotionData";
+import {
+  scoreEligibleDestinations,
+  getDestinationKey,
+  type RecommendationFeedback,
+  type ScoredDestination,
+} from "@/lib/recommendations";
+
+export interface TripHop {
+  from: string;
+  to: string;
+  // "nearby": one lists the other in nearbyAttractions; "region": same region only
+  link: "nearby" | "region";
+}
+
+export interface TripCombo {
+  id: string;
+  stops: ScoredDestination[];
+  hops: TripHop[];
+  score: number;
+}
+
+const MIN_STOPS = 2;
+const MAX_STOPS = 4;
+const MAX_COMBOS = 3;
+
+const regionOf = (destination: Destination) => destination.country.replace(/^Near\s+/i, "");
+
+// "Lalbagh" in nearbyAttractions refers to "Lalbagh Botanical Garden"
+const mentions = (from: Destination, to: Destination) =>
+  (from.nearbyAttractions ?? []).some(attraction => {
+    const a = attraction.toLowerCase();
+    const b = to.name.toLowerCase();
+    return a === b || b.startsWith(`${a} `) || a.startsWith(`${b} `);
+  });
+
+export const getLink = (a: Destination, b: Destination): TripHop["link"] | null => {
+  if (mentions(a, b) || mentions(b, a)) return "nearby";
+  if (regionOf(a) === regionOf(b)) return "region";
+  return null;
+};
+
+// Every simple route of MIN_STOPS–MAX_STOPS stops where each hop is a nearby or same-region link
+const findRoutes = (destinations: ScoredDestination[]) => {
+  const neighbours = new Map(
+    destinations.map(destination => [
+      destination,
+      destinations.filter(other => other !== destination && getLink(destination, other)),
+    ])
+  );
+  const routes: ScoredDestination[][] = [];
+  const extend = (route: ScoredDestination[]) => {
+    if (route.length >= MIN_STOPS) routes.push(route);
+    if (route.length === MAX_STOPS) return;
+    neighbours.get(route[route.length - 1])!.forEach(next => {
+      if (!route.includes(next)) extend([...route, next]);
+    });
+  };
+  destinations.forEach(start => extend([start]));
+  return routes;
+};
+
+// Ranked on uncapped stop scores so strong trips stay distinguishable; shown capped at 100%
+const scoreRoute = (stops: ScoredDestination[]) => {
+  const hops: TripHop[] = stops.slice(1).map((stop, index) => ({
+    from: stops[index].name,
+    to: stop.name,
+    link: getLink(stops[index], stop) ?? "region",
+  }));
+  const average = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length;
+  const loosePenalty = hops.filter(hop => hop.link === "region").length * comboLooseHopPenalty;
+  return {
+    hops,
+    score: Math.round(average(stops.map(stop => stop.matchExplanation.score)) - loosePenalty),
+    rank: average(stops.map(stop => stop.matchExplanation.rawScore)) - loosePenalty,
+  };
+};
+
+export const getTripCombos = (
+  emotionData: EmotionData,
+  seed: number,
+  feedback?: RecommendationFeedback
+): TripCombo[] => {
+  const random = createRandom(seed);
+  const { scored } = scoreEligibleDestinations(emotionData, feedback);
+
+  // A route and its reverse visit the same places, so keep whichever scores best per set of stops
+  const bestBySet = new Map<string, TripCombo & { rank: number }>();
+  findRoutes(scored).forEach(stops => {
+    const { hops, score, rank } = scoreRoute(stops);
+    const id = stops.map(getDestinationKey).sort().join("|");
+    const current = bestBySet.get(id);
+    if (!current || rank > current.rank) {
+      bestBySet.set(id, { id, stops, hops, score, rank });
+    }
+  });
+
+  const candidates = [...bestBySet.values()];
+  candidates.forEach(combo => { combo.rank += random() * refreshJitter; });
+  candidates.sort((a, b) => b.rank - a.rank);
+
+  // Prefer combos that don't repeat the stops of one already picked
+  const picked: TripCombo[] = [];
+  for (const { rank, ...combo } of candidates) {
+    if (picked.length === MAX_COMBOS) break;
+    const overlaps = picked.some(other => other.stops.filter(stop => combo.stops.includes(stop)).length > 1);
+    if (!overlaps) picked.push(combo);
+  }
+  return picked;
+};
@@ -0,0 +1,247 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { ParticleBackground } from "@/components/ParticleBackground";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { AlertTriangle, Download, FileUp, RotateCcw } from "lucide-react";
+import { usePlans } from "@/contexts/PlanContext";
+import { useCheckIns } from "@/contexts/CheckInContext";
+import { useFeedback } from "@/contexts/FeedbackContext";
+import { useToast } from "@/hooks/use-toast";
+import { downloadFile } from "@/lib/download";
+import {
+  createBackupFile,
+  getRestoredData,
+  parseBackupFile,
+  previewRestore,
+  type Backup as BackupFile,
+  type RestoreMode,
+  type SectionDiff,
+} from "@/lib/backup";
+
+const restoreModes = [
+  { value: "merge", label: "Merge", description: "Add what's missing and keep the newer version of each plan." },
+  { value: "replace", label: "Replace", description: "Make this browser match the backup exactly." }
+] as const;
+
+const DiffList = ({ title, diff }: { title: string; diff: SectionDiff }) => {
+  const rows = [
+    { label: "Added", items: diff.added, className: "bg-green-500/20 text-green-700 border-green-500/30" },
+    { label: "Updated", items: diff.updated, className: "bg-blue-500/20 text-blue-700 border-blue-500/30" },
+    { label: "Removed", items: diff.removed, className: "bg-red-500/20 text-red-700 border-red-500/30" }
+  ];
+  const hasChanges = rows.some(row => row.items.length > 0);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-foreground">{title}</h4>
+        <span className="text-xs text-muted-foreground">{diff.unchanged} unchanged</span>
+      </div>
+      {!hasChanges ? (
+        <p className="text-sm text-muted-foreground">No changes</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.filter(row => row.items.length > 0).map(row => (
+            <div key={row.label} className="flex items-start gap-2">
+              <Badge className={`${row.className} flex-shrink-0`}>{row.label} {row.items.length}</Badge>
+              <p className="text-sm text-muted-foreground">{row.items.join(", ")}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const Backup = () => {
+  const { selectedPlans, restorePlans } = usePlans();
+  const { checkIns, restoreCheckIns } = useCheckIns();
+  const { feedback, restoreFeedback } = useFeedback();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+
+  const current = { plans: selectedPlans, checkIns, feedback };
+  const restored = backup ? getRestoredData(current, backup, mode) : null;
+  const preview = restored ? previewRestore(current, restored) : null;
+  const removedCount = preview
+    ? preview.plans.removed.length + preview.checkIns.removed.length + preview.feedback.removed.length
+    : 0;
+
+  const handleExport = () => {
+    downloadFile(
+      `emotion-escapes-backup-${format(new Date(), "yyyy-MM-dd")}.json`,
+      createBackupFile(current),
+      "application/json"
+    );
+    toast({ title: "Backup downloaded", description: "Keep the file somewhere safe to restore from later." });
+  };
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    const result = parseBackupFile(await file.text());
+    setBackup(result.backup ?? null);
+    setError(result.error ?? null);
+  };
+
+  const handleCancel = () => {
+    setBackup(null);
+    setError(null);
+    setFileName("");
+  };
+
+  const handleRestore = () => {
+    if (!restored) return;
+    restorePlans(restored.plans);
+    restoreCheckIns(restored.checkIns);
+    restoreFeedback(restored.feedback);
+    toast({
+      title: "Backup restored",
+      description: mode === "merge" ? `Merged ${fileName} into your data.` : `Your data now matches ${fileName}.`,
+    });
+    handleCancel();
+  };
+
+  return (
+    <div className="min-h-screen bg-background relative pt-16">
+      <ParticleBackground theme="minimal" />
+
+      <section className="relative py-12 px-6">
+        <div className="max-w-3xl mx-auto space-y-8">
+          <div className="text-center">
+            <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-2">Backup & Restore</h1>
+            <p className="text-xl text-muted-foreground">
+              Your plans, check-ins and preferences live in this browser. Take them with you.
+            </p>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Download className="w-5 h-5 mr-2" />
+                Export
+              </CardTitle>
+              <CardDescription>Download everything as a single file.</CardDescription>
+            </CardHeader>
+            <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <div className="flex gap-6 text-sm text-muted-foreground">
+                <span><strong className="text-foreground">{selectedPlans.length}</strong> plans</span>
+                <span><strong className="text-foreground">{checkIns.length}</strong> check-ins</span>
+                <span><strong className="text-foreground">{Object.keys(feedback).length}</strong> preferences</span>
+              </div>
+              <Button onClick={handleExport} className="bg-gradient-ocean text-white">
+                <Download className="w-4 h-4 mr-2" />
+                Download Backup
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <RotateCcw className="w-5 h-5 mr-2" />
+                Restore
+              </CardTitle>
+              <CardDescription>Choose a backup file to see what would change before anything is restored.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex items-center gap-3">
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <FileUp className="w-4 h-4 mr-2" />
+                  Choose File
+                </Button>
+                {fileName && <span className="text-sm text-muted-foreground truncate">{fileName}</span>}
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={event => {
+                    const file = event.target.files?.[0];
+                    if (file) handleFile(file);
+                    event.target.value = "";
+                  }}
+                />
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Can't restore this file</AlertTitle>
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              {backup && preview && (
+                <>
+                  <p className="text-sm text-muted-foreground">
+                    Backup from {new Date(backup.exportedAt).toLocaleString()}: {backup.plans.length} plans,{" "}
+                    {backup.checkIns.length} check-ins, {Object.keys(backup.feedback).length} preferences.
+                  </p>
+
+                  <RadioGroup value={mode} onValueChange={value => setMode(value as RestoreMode)} className="grid sm:grid-cols-2 gap-3">
+                    {restoreModes.map(option => (
+                      <Label
+                        key={option.value}
+                        htmlFor={`restore-${option.value}`}
+                        className={`flex items-start gap-3 p-4 rounded-lg border cursor-pointer ${
+                          mode === option.value ? 'border-primary bg-primary/5' : 'border-border'
+                        }`}
+                      >
+                        <RadioGroupItem value={option.value} id={`restore-${option.value}`} className="mt-0.5" />
+                        <span>
+                          <span className="block font-semibold">{option.label}</span>
+                          <span className="block text-sm font-normal text-muted-foreground">{option.description}</span>
+                        </span>
+                      </Label>
+                    ))}
+                  </RadioGroup>
+
+                  <Separator />
+
+                  <div className="space-y-4">
+                    <DiffList title="Plans" diff={preview.plans} />
+                    <DiffList title="Check-ins" diff={preview.checkIns} />
+                    <DiffList title="Preferences" diff={preview.feedback} />
+                  </div>
+
+                  {removedCount > 0 && (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        {removedCount} item{removedCount > 1 ? 's' : ''} not in the backup will be removed from this browser.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="flex gap-3">
+                    <Button
+                      onClick={handleRestore}
+                      variant={removedCount > 0 ? "destructive" : "default"}
+                    >
+                      {mode === "merge" ? "Merge Backup" : "Replace My Data"}
+                    </Button>
+                    <Button variant="outline" onClick={handleCancel}>
+                      Cancel
+                    </Button>
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Backup;
@@ -1,12 +1,18 @@
+import { useState } from "react";
 import { ParticleBackground } from "@/components/ParticleBackground";
 import { DestinationCard } from "@/components/DestinationCard";
 import { GoogleMapEmbed } from "@/components/GoogleMapEmbed";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { MapPin, Calendar, Star } from "lucide-react";
 import { bangaloreDestinations } from "@/data/destinations";
+import { bySeasonality } from "@/lib/seasons";
 
 const Bangalore = () => {
+  const [inSeasonFirst, setInSeasonFirst] = useState(false);
+  const destinations = inSeasonFirst ? [...bangaloreDestinations].sort(bySeasonality()) : bangaloreDestinations;
+
   return (
     <div className="min-h-screen bg-background relative pt-16">
       <ParticleBackground theme="sunset" />
@@ -90,9 +96,16 @@ const Bangalore = () => {
             </p>
           </div>
 
+          <div className="flex justify-end mb-6">
+            <Button variant={inSeasonFirst ? "default" : "outline"} onClick={() => setInSeasonFirst(prev => !prev)}>
+              <Calendar className="w-4 h-4 mr-2" />
+              {inSeasonFirst ? "Showing In Season First" : "Show In Season First"}
+            </Button>
+          </div>
+
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-            {bangaloreDestinations.map((destination, index) => (
-              <DestinationCard key={index} {...destination} />
+            {destinations.map((destination) => (
+              <DestinationCard key={destination.name} {...destination} />
             ))}
           </div>
         </div>
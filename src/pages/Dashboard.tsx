@@ -6,7 +6,19 @@ import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
-import { usePlans } from "@/contexts/PlanContext";
+import { usePlans, type SelectedPlan } from "@/contexts/PlanContext";
+import { MoodJournal } from "@/components/MoodJournal";
+import { TravelInsights } from "@/components/TravelInsights";
+import { TripReflectionDialog } from "@/components/TripReflectionDialog";
+import { ReflectionSummary } from "@/components/ReflectionSummary";
+import { PlanDatesPicker } from "@/components/PlanDatesPicker";
+import { StatusSuggestionBanner } from "@/components/StatusSuggestionBanner";
+import { PlanCalendar } from "@/components/PlanCalendar";
+import { ICalendarActions } from "@/components/ICalendarActions";
+import { getStatusSuggestion, hasDates } from "@/lib/planDates";
+import { exportPlansToICalendar } from "@/lib/icalendar";
+import { getCompletedSteps, getCurrentStep, getStatusForSteps, getStepProgress, toggleStep } from "@/lib/travelProgress";
+import { travelSteps, type TravelStepId } from "@/data/travelSteps";
 import { 
   MapPin, 
   Calendar, 
@@ -21,21 +33,32 @@ import {
   Edit3,
   ArrowRight,
   Target,
-  Calendar as CalendarIcon
+  Route,
+  Calendar as CalendarIcon,
+  CalendarPlus
 } from "lucide-react";
 import { useSearchParams, useNavigate } from 'react-router-dom';
 
 const Dashboard = () => {
-  const { selectedPlans, updatePlanStatus, removePlan, getPlansByStatus } = usePlans();
+  const { selectedPlans, updatePlanStatus, togglePlanStep, removePlan, getPlansByStatus, getPlansByTrip } = usePlans();
   const [searchParams, setSearchParams] = useSearchParams();
-  const initialTab = (searchParams.get('tab') as "overview" | "selected" | "ongoing" | "completed") || "overview";
+  const initialTab = (searchParams.get('tab') as "overview" | "selected" | "ongoing" | "completed" | "calendar" | "journal") || "overview";
   const [activeTab, setActiveTab] = useState(initialTab);
+  const [reflectingPlan, setReflectingPlan] = useState<SelectedPlan | null>(null);
+  // Suggestions the traveler said "not now" to, as `${planId}:${status}`, until the next visit
+  const [dismissedSuggestions, setDismissedSuggestions] = useState<string[]>([]);
   const navigate = useNavigate();
 
   const selectedCount = getPlansByStatus('selected').length;
-  const ongoingCount = getPlansByStatus('ongoing').length;
+  const ongoingPlans = getPlansByStatus('ongoing');
+  const ongoingCount = ongoingPlans.length;
   const completedCount = getPlansByStatus('completed').length;
 
+  const suggestedPlans = selectedPlans.filter(plan => {
+    const suggestion = getStatusSuggestion(plan);
+    return suggestion && !dismissedSuggestions.includes(`${plan.id}:${suggestion.status}`);
+  });
+
   const totalPlans = selectedPlans.length;
   const progressPercentage = totalPlans > 0 ? (completedCount / totalPlans) * 100 : 0;
 
@@ -52,29 +75,64 @@ const Dashboard = () => {
     }
   };
 
+  // Completing a journey goes through the reflection dialog, which updates the status itself
   const handleStatusChange = (planId: string, newStatus: 'selected' | 'ongoing' | 'completed') => {
+    const plan = selectedPlans.find(p => p.id === planId);
+    if (newStatus === 'completed' && plan && plan.status !== 'completed') {
+      setReflectingPlan(plan);
+      return;
+    }
     updatePlanStatus(planId, newStatus);
   };
 
-  const getTravelSteps = () => [
-    { id: 'research', title: 'Research & Planning', description: 'Gather information, check weather, learn about local customs', icon: '📚' },
-    { id: 'booking', title: 'Book Accommodation & Transport', description: 'Reserve hotels, book flights/trains, arrange local transport', icon: '🏨' },
-    { id: 'preparation', title: 'Travel Preparation', description: 'Pack essentials, check documents, prepare itinerary', icon: '🎒' },
-    { id: 'arrival', title: 'Arrival & Check-in', description: 'Reach destination, check into accommodation, get oriented', icon: '✈️' },
-    { id: 'exploration', title: 'Explore & Experience', description: 'Visit attractions, try local cuisine, immerse in culture', icon: '🗺️' },
-    { id: 'completion', title: 'Journey Complete', description: 'Reflect on experiences, share memories, plan next adventure', icon: '🎉' }
-  ];
-
-  const getStepProgress = (status: string) => {
-    switch (status) {
-      case 'selected': return 0;
-      case 'ongoing': return 50;
-      case 'completed': return 100;
-      default: return 0;
+  // Ticking off the last step completes the journey, which goes through the reflection dialog
+  const handleStepToggle = (plan: SelectedPlan, stepId: TravelStepId) => {
+    if (plan.status !== 'completed' && getStatusForSteps(toggleStep(plan, stepId)) === 'completed') {
+      setReflectingPlan(plan);
+      return;
     }
+    togglePlanStep(plan.id, stepId);
+  };
+
+  // Counted from the stops still planned, so removing one doesn't leave gaps like "Stop 3 of 2"
+  const getTripStopLabel = (planId: string, trip: NonNullable<SelectedPlan['trip']>) => {
+    const stops = getPlansByTrip(trip.id);
+    return `Stop ${stops.findIndex(stop => stop.id === planId) + 1} of ${stops.length} · ${trip.name}`;
+  };
+
+  // The next unticked step of an ongoing plan, with shortcuts to tick it off or untick the last one
+  const renderCurrentPhase = (plan: SelectedPlan) => {
+    const currentStep = getCurrentStep(plan);
+    if (!currentStep) return null;
+    const completedSteps = getCompletedSteps(plan);
+    const lastDone = completedSteps[completedSteps.length - 1];
+    return (
+      <div className="text-xs text-amber-700">
+        <div className="font-medium mb-1">Current Phase: {currentStep.icon} {currentStep.title}</div>
+        <div>{currentStep.description}</div>
+        <div className="mt-2 flex gap-3">
+          <button
+            type="button"
+            className="font-semibold underline"
+            onClick={() => handleStepToggle(plan, currentStep.id)}
+          >
+            Mark as done
+          </button>
+          {lastDone && (
+            <button
+              type="button"
+              className="underline opacity-80"
+              onClick={() => handleStepToggle(plan, lastDone)}
+            >
+              Undo last step
+            </button>
+          )}
+        </div>
+      </div>
+    );
   };
 
-  const PlanCard = ({ plan }: { plan: any }) => (
+  const PlanCard = ({ plan }: { plan: SelectedPlan }) => (
     <Card className="overflow-hidden hover:shadow-lg transition-all duration-300 flex flex-col h-full">
       <div className="relative">
         <img 
@@ -101,11 +159,8 @@ const Dashboard = () => {
               <span className="text-sm font-semibold text-amber-800">Journey in Progress</span>
               <Target className="w-4 h-4 text-amber-600" />
             </div>
-            <Progress value={getStepProgress(plan.status)} className="mb-3" />
-            <div className="text-xs text-amber-700">
-              <div className="font-medium mb-1">Current Phase: Explore & Experience</div>
-              <div>Visit attractions • Try local cuisine • Immerse in culture</div>
-            </div>
+            <Progress value={getStepProgress(plan)} className="mb-3" />
+            {renderCurrentPhase(plan)}
           </div>
         )}
 
@@ -116,9 +171,20 @@ const Dashboard = () => {
               <CheckCircle className="w-4 h-4 text-green-600" />
               <span className="text-sm font-semibold text-green-800">Journey Completed!</span>
             </div>
-            <div className="text-xs text-green-700">
-              Congratulations on completing your emotional journey to {plan.name}
-            </div>
+            {plan.reflection ? (
+              <ReflectionSummary plan={plan} compact />
+            ) : (
+              <div className="text-xs text-green-700">
+                Congratulations on completing your emotional journey to {plan.name}
+                <button
+                  type="button"
+                  className="block mt-2 font-semibold underline"
+                  onClick={() => setReflectingPlan(plan)}
+                >
+                  Reflect on this journey
+                </button>
+              </div>
+            )}
           </div>
         )}
 
@@ -130,6 +196,15 @@ const Dashboard = () => {
           </div>
         </div>
         
+        {plan.trip && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-3">
+            <Route className="w-4 h-4 flex-shrink-0" />
+            <span title={getPlansByTrip(plan.trip.id).map(stop => stop.name).join(' → ')}>
+              {getTripStopLabel(plan.id, plan.trip)}
+            </span>
+          </div>
+        )}
+
         <p className="text-muted-foreground text-sm mb-4 line-clamp-2">
           {plan.description}
         </p>
@@ -149,6 +224,8 @@ const Dashboard = () => {
           </span>
           <span>{plan.priceRange}</span>
         </div>
+
+        <PlanDatesPicker plan={plan} />
         
         <Separator className="my-4" />
         
@@ -179,14 +256,26 @@ const Dashboard = () => {
               Completed
             </Button>
           </div>
-          <Button 
-            size="sm" 
-            variant="ghost" 
-            onClick={() => removePlan(plan.id)}
-            className="text-red-500 hover:text-red-700 hover:bg-red-50"
-          >
-            <X className="w-4 h-4" />
-          </Button>
+          <div className="flex">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => exportPlansToICalendar([plan])}
+              disabled={!hasDates(plan)}
+              title={hasDates(plan) ? "Add to calendar (.ics)" : "Add travel dates to export"}
+              aria-label={`Export ${plan.name} to calendar`}
+            >
+              <CalendarPlus className="w-4 h-4" />
+            </Button>
+            <Button 
+              size="sm" 
+              variant="ghost" 
+              onClick={() => removePlan(plan.id)}
+              className="text-red-500 hover:text-red-700 hover:bg-red-50"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
 
         <div className="mt-4 flex gap-3 items-stretch">
@@ -238,7 +327,7 @@ const Dashboard = () => {
       {/* Header */}
       <section className="relative py-12 px-6">
         <div className="max-w-7xl mx-auto">
-          <div className="flex items-center justify-between mb-8">
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
             <div>
               <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-2">
                 Your Travel Dashboard
@@ -247,10 +336,13 @@ const Dashboard = () => {
                 Manage and track your personalized travel experiences
               </p>
             </div>
-            <Button variant="outline" size="lg" className="hidden md:flex">
-              <Settings className="w-5 h-5 mr-2" />
-              Customize
-            </Button>
+            <div className="flex items-center gap-2">
+              <ICalendarActions />
+              <Button variant="outline" size="lg" className="hidden md:flex" onClick={() => navigate('/backup')}>
+                <Settings className="w-5 h-5 mr-2" />
+                Customize
+              </Button>
+            </div>
           </div>
 
           {/* Stats Overview */}
@@ -281,18 +373,36 @@ const Dashboard = () => {
               </CardContent>
             </Card>
           </div>
+
+          {/* Date-based status suggestions */}
+          {suggestedPlans.length > 0 && (
+            <div className="space-y-3">
+              {suggestedPlans.map(plan => (
+                <StatusSuggestionBanner
+                  key={plan.id}
+                  plan={plan}
+                  onAccept={status => handleStatusChange(plan.id, status)}
+                  onDismiss={() =>
+                    setDismissedSuggestions(prev => [...prev, `${plan.id}:${getStatusSuggestion(plan)?.status}`])
+                  }
+                />
+              ))}
+            </div>
+          )}
         </div>
       </section>
 
       {/* Main Content */}
       <section className="px-6 pb-12">
         <div className="max-w-7xl mx-auto">
-          <Tabs value={activeTab} onValueChange={(val) => setActiveTab(val as "overview" | "selected" | "ongoing" | "completed")} className="w-full">
-            <TabsList className="grid w-full grid-cols-4">
+          <Tabs value={activeTab} onValueChange={(val) => setActiveTab(val as "overview" | "selected" | "ongoing" | "completed" | "calendar" | "journal")} className="w-full">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="overview">Overview</TabsTrigger>
               <TabsTrigger value="selected">Selected</TabsTrigger>
               <TabsTrigger value="ongoing">Ongoing</TabsTrigger>
               <TabsTrigger value="completed">Completed</TabsTrigger>
+              <TabsTrigger value="calendar">Calendar</TabsTrigger>
+              <TabsTrigger value="journal">Mood Journal</TabsTrigger>
             </TabsList>
             
             <TabsContent value="overview" className="mt-8">
@@ -346,11 +456,11 @@ const Dashboard = () => {
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
-                    <Button className="w-full" variant="outline">
+                    <Button className="w-full" variant="outline" onClick={() => navigate('/profile')}>
                       <User className="w-4 h-4 mr-2" />
                       Edit Profile
                     </Button>
-                    <Button className="w-full" variant="outline">
+                    <Button className="w-full" variant="outline" onClick={() => navigate('/backup')}>
                       <Heart className="w-4 h-4 mr-2" />
                       Update Preferences
                     </Button>
@@ -365,6 +475,11 @@ const Dashboard = () => {
                   </CardContent>
                 </Card>
               </div>
+
+              {/* Travel & Mood Insights */}
+              <div className="mt-12">
+                <TravelInsights />
+              </div>
             </TabsContent>
             
             <TabsContent value="selected" className="mt-8">
@@ -384,7 +499,7 @@ const Dashboard = () => {
             <TabsContent value="ongoing" className="mt-8">
               <div className="space-y-6">
                 {/* Travel Guide for Ongoing Plans */}
-                {getPlansByStatus('ongoing').length > 0 && (
+                {ongoingPlans.length > 0 && (
                   <Card className="bg-gradient-nature text-white">
                     <CardContent className="p-6">
                       <h3 className="text-2xl font-bold mb-4 flex items-center">
@@ -398,10 +513,15 @@ const Dashboard = () => {
                             Travel Checklist
                           </h4>
                           <ul className="space-y-2 text-sm opacity-90">
-                            <li>✅ Research completed</li>
-                            <li>✅ Bookings confirmed</li>
-                            <li>🎯 Currently exploring destinations</li>
-                            <li>📸 Capturing memories</li>
+                            {travelSteps.map(step => {
+                              const done = ongoingPlans.filter(plan => getCompletedSteps(plan).includes(step.id)).length;
+                              return (
+                                <li key={step.id}>
+                                  {done === ongoingPlans.length ? '✅' : step.icon} {step.title}
+                                  {done > 0 && done < ongoingPlans.length && ` (${done} of ${ongoingPlans.length})`}
+                                </li>
+                              );
+                            })}
                           </ul>
                         </div>
                         <div>
@@ -410,10 +530,9 @@ const Dashboard = () => {
                             Next Steps
                           </h4>
                           <ul className="space-y-2 text-sm opacity-90">
-                            <li>• Visit cultural highlights</li>
-                            <li>• Try local cuisines</li>
-                            <li>• Follow travel tips</li>
-                            <li>• Mark as complete when done</li>
+                            {ongoingPlans.map(plan => (
+                              <li key={plan.id}>• {plan.name}: {getCurrentStep(plan)?.title ?? 'Mark as complete'}</li>
+                            ))}
                           </ul>
                         </div>
                       </div>
@@ -448,9 +567,22 @@ const Dashboard = () => {
                 )}
               </div>
             </TabsContent>
+
+            <TabsContent value="calendar" className="mt-8">
+              <PlanCalendar getStatusColor={getStatusColor} />
+            </TabsContent>
+
+            <TabsContent value="journal" className="mt-8">
+              <MoodJournal />
+            </TabsContent>
           </Tabs>
         </div>
       </section>
+
+      <TripReflectionDialog
+        plan={reflectingPlan}
+        onOpenChange={(open) => !open && setReflectingPlan(null)}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useLocation, useNavigate, useParams } from "react-router-dom";
 import { ParticleBackground } from "@/components/ParticleBackground";
 import { Card, CardContent } from "@/components/ui/card";
@@ -10,6 +10,14 @@ import { useToast } from "@/hooks/use-toast";
 import { bangaloreDestinations, keralaDestinations, tamilNaduDestinations, type Destination } from "@/data/destinations";
 import { Progress } from "@/components/ui/progress";
 import { Separator } from "@/components/ui/separator";
+import { SeasonStrip } from "@/components/SeasonStrip";
+import { TripReflectionDialog } from "@/components/TripReflectionDialog";
+import { ReflectionSummary } from "@/components/ReflectionSummary";
+import { PlanDatesPicker } from "@/components/PlanDatesPicker";
+import { StatusSuggestionBanner } from "@/components/StatusSuggestionBanner";
+import type { SelectedPlan } from "@/contexts/PlanContext";
+import { travelSteps, type TravelStepId } from "@/data/travelSteps";
+import { getCompletedSteps, getCurrentStep, getStatusForSteps, getStepProgress, toggleStep } from "@/lib/travelProgress";
 
 const allDestinations: Destination[] = [
   ...tamilNaduDestinations,
@@ -23,8 +31,10 @@ const DestinationDetail = () => {
   const decodedName = decodeURIComponent(name);
   const location = useLocation() as { state?: { destination?: Destination } };
   const navigate = useNavigate();
-  const { addPlan, selectedPlans, updatePlanStatus } = usePlans();
+  const { addPlan, selectedPlans, updatePlanStatus, togglePlanStep } = usePlans();
   const { toast } = useToast();
+  const [reflectingPlan, setReflectingPlan] = useState<SelectedPlan | null>(null);
+  const [isSuggestionDismissed, setIsSuggestionDismissed] = useState(false);
 
   const destination = useMemo(() => {
     return (
@@ -38,6 +48,11 @@ const DestinationDetail = () => {
   const currentPlan = selectedPlans.find(
     (p) => p.name === destination?.name && p.region === destination?.country
   );
+  const currentStep = currentPlan ? getCurrentStep(currentPlan) : undefined;
+  // Steps still to do after the current one
+  const nextSteps = currentPlan
+    ? travelSteps.filter(step => step.id !== currentStep?.id && !getCompletedSteps(currentPlan).includes(step.id))
+    : [];
 
   // Scroll to top when component mounts or destination changes
   useEffect(() => {
@@ -91,21 +106,14 @@ const DestinationDetail = () => {
     }
   }, [destination.priceRange]);
 
-  const travelSteps = [
-    { id: 'research', title: 'Research & Planning', description: 'Gather information about the destination, weather, and local customs' },
-    { id: 'booking', title: 'Accommodation & Transport', description: 'Book hotels, flights, and local transportation' },
-    { id: 'preparation', title: 'Travel Preparation', description: 'Pack essentials, check documents, and prepare for the journey' },
-    { id: 'arrival', title: 'Arrival & Check-in', description: 'Reach destination, check into accommodation, and get oriented' },
-    { id: 'exploration', title: 'Explore & Experience', description: 'Visit attractions, try local cuisine, and immerse in culture' },
-    { id: 'completion', title: 'Journey Complete', description: 'Reflect on experiences and share memories' }
-  ];
-
-  const getStepProgress = () => {
-    if (!currentPlan) return 0;
-    if (currentPlan.status === 'selected') return 0;
-    if (currentPlan.status === 'ongoing') return 50;
-    if (currentPlan.status === 'completed') return 100;
-    return 0;
+  // Ticking off the last step completes the journey, which goes through the reflection dialog
+  const handleStepToggle = (stepId: TravelStepId) => {
+    if (!currentPlan) return;
+    if (currentPlan.status !== 'completed' && getStatusForSteps(toggleStep(currentPlan, stepId)) === 'completed') {
+      setReflectingPlan(currentPlan);
+      return;
+    }
+    togglePlanStep(currentPlan.id, stepId);
   };
 
   const handleAdd = () => {
@@ -136,10 +144,10 @@ const DestinationDetail = () => {
     }
   };
 
+  // The reflection dialog marks the plan completed once the traveler saves or skips
   const handleCompleteJourney = () => {
     if (currentPlan) {
-      updatePlanStatus(currentPlan.id, 'completed');
-      toast({ title: "Journey completed!", description: `Congratulations on completing your journey to ${destination.name}!` });
+      setReflectingPlan(currentPlan);
     }
   };
 
@@ -214,20 +222,37 @@ const DestinationDetail = () => {
                     </Badge>
                   </div>
                   
-                  <Progress value={getStepProgress()} className="mb-6" />
+                  <div className="mb-6 space-y-4">
+                    <PlanDatesPicker plan={currentPlan} numberOfMonths={2} />
+                    {!isSuggestionDismissed && (
+                      <StatusSuggestionBanner
+                        plan={currentPlan}
+                        onAccept={status => (status === 'ongoing' ? handleStartJourney() : handleCompleteJourney())}
+                        onDismiss={() => setIsSuggestionDismissed(true)}
+                      />
+                    )}
+                  </div>
+
+                  <Progress value={getStepProgress(currentPlan)} className="mb-6" />
                   
                   <div className="space-y-4">
                     {travelSteps.map((step, index) => {
-                      const isCompleted = currentPlan.status === 'completed';
-                      const isCurrent = currentPlan.status === 'ongoing' && index <= 3;
-                      const isUpcoming = currentPlan.status === 'selected' || (currentPlan.status === 'ongoing' && index > 3);
+                      const isCompleted = getCompletedSteps(currentPlan).includes(step.id);
+                      const isCurrent = currentStep?.id === step.id;
                       
                       return (
-                        <div key={step.id} className={`flex items-start gap-4 p-4 rounded-lg transition-all ${
-                          isCompleted ? 'bg-green-50 border border-green-200' :
-                          isCurrent ? 'bg-amber-50 border border-amber-200' :
-                          'bg-gray-50 border border-gray-200'
-                        }`}>
+                        <button
+                          key={step.id}
+                          type="button"
+                          role="checkbox"
+                          aria-checked={isCompleted}
+                          onClick={() => handleStepToggle(step.id)}
+                          className={`w-full text-left flex items-start gap-4 p-4 rounded-lg transition-all hover:shadow-sm ${
+                            isCompleted ? 'bg-green-50 border border-green-200' :
+                            isCurrent ? 'bg-amber-50 border border-amber-200' :
+                            'bg-gray-50 border border-gray-200'
+                          }`}
+                        >
                           <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${
                             isCompleted ? 'bg-green-500 text-white' :
                             isCurrent ? 'bg-amber-500 text-white' :
@@ -246,11 +271,19 @@ const DestinationDetail = () => {
                           {isCurrent && (
                             <ArrowRight className="w-5 h-5 text-amber-500 animate-pulse" />
                           )}
-                        </div>
+                        </button>
                       );
                     })}
                   </div>
+                  <p className="text-xs text-muted-foreground mt-3">Tick off each step as you go; your progress follows along.</p>
                   
+                  {currentPlan.status === 'completed' && currentPlan.reflection && (
+                    <div className="mt-6 p-4 rounded-lg bg-green-50 border border-green-200">
+                      <h4 className="font-semibold text-foreground mb-2">Your Reflection</h4>
+                      <ReflectionSummary plan={currentPlan} />
+                    </div>
+                  )}
+
                   <Separator className="my-6" />
                   
                   <div className="flex gap-3">
@@ -264,6 +297,11 @@ const DestinationDetail = () => {
                         Mark as Completed
                       </Button>
                     )}
+                    {currentPlan.status === 'completed' && !currentPlan.reflection && (
+                      <Button onClick={() => setReflectingPlan(currentPlan)} variant="outline">
+                        Reflect on this Journey
+                      </Button>
+                    )}
                     <Button variant="outline" onClick={() => navigate('/dashboard')}>
                       View Dashboard
                     </Button>
@@ -421,26 +459,29 @@ const DestinationDetail = () => {
                     Journey Progress
                   </h3>
                   
-                  <Progress value={getStepProgress()} className="mb-4 bg-white/20" />
+                  <Progress value={getStepProgress(currentPlan)} className="mb-4 bg-white/20" />
                   
                   <div className="space-y-3">
-                    <div className="text-sm">
-                      <div className="font-semibold mb-2">Current Phase:</div>
-                      <div className="bg-white/10 p-3 rounded-lg">
-                        <div className="font-medium">Explore & Experience</div>
-                        <div className="text-xs opacity-90 mt-1">Visit attractions, try local cuisine, and immerse in culture</div>
+                    {currentStep && (
+                      <div className="text-sm">
+                        <div className="font-semibold mb-2">Current Phase:</div>
+                        <div className="bg-white/10 p-3 rounded-lg">
+                          <div className="font-medium">{currentStep.title}</div>
+                          <div className="text-xs opacity-90 mt-1">{currentStep.description}</div>
+                        </div>
                       </div>
-                    </div>
+                    )}
                     
-                    <div className="text-sm">
-                      <div className="font-semibold mb-2">Next Steps:</div>
-                      <ul className="space-y-1 text-xs opacity-90">
-                        <li>• Visit the cultural highlights listed below</li>
-                        <li>• Try recommended local cuisines</li>
-                        <li>• Take photos at must-visit places</li>
-                        <li>• Follow the travel tips for best experience</li>
-                      </ul>
-                    </div>
+                    {nextSteps.length > 0 && (
+                      <div className="text-sm">
+                        <div className="font-semibold mb-2">Next Steps:</div>
+                        <ul className="space-y-1 text-xs opacity-90">
+                          {nextSteps.map(step => (
+                            <li key={step.id}>• {step.icon} {step.title}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                     
                     <Button 
                       onClick={handleCompleteJourney}
@@ -453,6 +494,16 @@ const DestinationDetail = () => {
               </Card>
             )}
 
+            <Card className="bg-card/80 backdrop-blur-sm">
+              <CardContent className="p-6">
+                <h3 className="text-lg font-semibold mb-3 flex items-center">
+                  <Clock className="w-5 h-5 mr-2" />
+                  When to Visit
+                </h3>
+                <SeasonStrip bestTime={destination.bestTime} />
+              </CardContent>
+            </Card>
+
             <Card className="bg-card/80 backdrop-blur-sm">
               <CardContent className="p-6 space-y-4">
                 <div className="flex items-center justify-between text-sm text-muted-foreground">
@@ -497,6 +548,11 @@ const DestinationDetail = () => {
           </div>
         </div>
       </section>
+
+      <TripReflectionDialog
+        plan={reflectingPlan}
+        onOpenChange={(open) => !open && setReflectingPlan(null)}
+      />
     </div>
   );
 };
@@ -4,6 +4,7 @@ import { EmotionForm } from "@/components/EmotionForm";
 import { FeatureCards } from "@/components/FeatureCards";
 import { DestinationCard } from "@/components/DestinationCard";
 import { tamilNaduDestinations, keralaDestinations, bangaloreDestinations } from "@/data/destinations";
+import { shuffle } from "@/lib/random";
 
 const getLocalSuggestions = () => {
   const pool = [
@@ -14,7 +15,7 @@ const getLocalSuggestions = () => {
   const sorted = pool.sort((a, b) => b.matchPercentage - a.matchPercentage);
   const top = sorted.slice(0, Math.min(9, sorted.length));
   const count = Math.min(top.length, 2 + Math.floor(Math.random() * 2)); // 2 or 3
-  const shuffled = [...top].sort(() => Math.random() - 0.5);
+  const shuffled = shuffle(top, Math.random);
   return shuffled.slice(0, count);
 };
 
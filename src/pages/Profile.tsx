@@ -0,0 +1,347 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { ParticleBackground } from "@/components/ParticleBackground";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Separator } from "@/components/ui/separator";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useAuth, getDisplayName } from "@/contexts/AuthContext";
+import { usePlans, type PlanSyncStatus } from "@/contexts/PlanContext";
+import { useCheckIns } from "@/contexts/CheckInContext";
+import { useToast } from "@/hooks/use-toast";
+import { User, Mail, LogOut, LayoutDashboard, Cloud, CloudOff, Loader2 } from "lucide-react";
+
+const emailSchema = z.string().trim().min(1, "Enter your email").email("Enter a valid email");
+
+const signInSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1, "Enter your password"),
+});
+
+const signUpSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(8, "Use at least 8 characters"),
+});
+
+const profileSchema = z.object({
+  displayName: z.string().trim().min(1, "Enter a name").max(60, "Keep it under 60 characters"),
+});
+
+type SignInValues = z.infer<typeof signInSchema>;
+type SignUpValues = z.infer<typeof signUpSchema>;
+type ProfileValues = z.infer<typeof profileSchema>;
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : "Something went wrong. Please try again.");
+
+const SignInForm = () => {
+  const { signInWithPassword, signInWithMagicLink } = useAuth();
+  const { toast } = useToast();
+  const form = useForm<SignInValues>({ resolver: zodResolver(signInSchema), defaultValues: { email: "", password: "" } });
+
+  const handleSubmit = async ({ email, password }: SignInValues) => {
+    try {
+      await signInWithPassword(email, password);
+      toast({ title: "Welcome back!" });
+    } catch (error) {
+      toast({ title: "Couldn't sign in", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  // A magic link only needs the email, so the password is left out of this check
+  const handleMagicLink = async () => {
+    if (!(await form.trigger("email"))) return;
+    try {
+      await signInWithMagicLink(form.getValues("email"));
+      toast({ title: "Check your email", description: "We sent you a link that signs you straight in." });
+    } catch (error) {
+      toast({ title: "Couldn't send the link", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" placeholder="you@example.com" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full bg-gradient-sunset text-white" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Sign In
+        </Button>
+        <Button type="button" variant="outline" className="w-full" onClick={handleMagicLink}>
+          <Mail className="w-4 h-4 mr-2" />
+          Email me a magic link instead
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+const SignUpForm = () => {
+  const { signUp } = useAuth();
+  const { toast } = useToast();
+  const form = useForm<SignUpValues>({ resolver: zodResolver(signUpSchema), defaultValues: { email: "", password: "" } });
+
+  const handleSubmit = async ({ email, password }: SignUpValues) => {
+    try {
+      await signUp(email, password);
+      toast({ title: "Confirm your email", description: "Open the link we sent you to finish creating your account." });
+      form.reset();
+    } catch (error) {
+      toast({ title: "Couldn't create your account", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="email" placeholder="you@example.com" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full bg-gradient-sunset text-white" disabled={form.formState.isSubmitting}>
+          {form.formState.isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Create Account
+        </Button>
+      </form>
+    </Form>
+  );
+};
+
+const syncMessages: Record<PlanSyncStatus, { icon: typeof Cloud; text: string; className: string }> = {
+  local: { icon: Cloud, text: "Your plans will start syncing with your account in a moment.", className: "text-muted-foreground" },
+  synced: { icon: Cloud, text: "Your plans sync with your account whenever you're online.", className: "text-muted-foreground" },
+  offline: { icon: CloudOff, text: "You're offline. Changes are saved on this device and sync when you're back online.", className: "text-muted-foreground" },
+  error: { icon: CloudOff, text: "Your plans aren't syncing right now. Changes are saved on this device and we'll keep trying.", className: "text-destructive" },
+};
+
+const AccountDetails = () => {
+  const { user, updateProfile, signOut } = useAuth();
+  const { selectedPlans, getPlansByStatus, syncStatus } = usePlans();
+  const { checkIns } = useCheckIns();
+  const { toast } = useToast();
+  const [isSigningOut, setIsSigningOut] = useState(false);
+  const displayName = user ? getDisplayName(user) : "";
+  const form = useForm<ProfileValues>({ resolver: zodResolver(profileSchema), defaultValues: { displayName } });
+
+  // The name arrives with the session, which may be restored after the form first renders
+  useEffect(() => {
+    form.reset({ displayName });
+  }, [displayName, form]);
+
+  if (!user) return null;
+
+  const handleSubmit = async (values: ProfileValues) => {
+    try {
+      await updateProfile({ displayName: values.displayName ?? "" });
+      toast({ title: "Profile updated" });
+    } catch (error) {
+      toast({ title: "Couldn't update your profile", description: errorMessage(error), variant: "destructive" });
+    }
+  };
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true);
+    try {
+      await signOut();
+      toast({ title: "Signed out", description: "Your plans stay safe in your account." });
+    } catch (error) {
+      toast({ title: "Couldn't sign out", description: errorMessage(error), variant: "destructive" });
+    } finally {
+      setIsSigningOut(false);
+    }
+  };
+
+  const sync = syncMessages[syncStatus];
+
+  const stats = [
+    { label: "Plans", value: selectedPlans.length },
+    { label: "Completed", value: getPlansByStatus('completed').length },
+    { label: "Check-ins", value: checkIns.length },
+  ];
+
+  return (
+    <Card className="max-w-xl mx-auto">
+      <CardHeader>
+        <div className="flex items-center gap-4">
+          <div className="w-14 h-14 rounded-full bg-gradient-sunset flex items-center justify-center text-2xl font-bold text-white">
+            {displayName.charAt(0).toUpperCase()}
+          </div>
+          <div>
+            <CardTitle>{displayName}</CardTitle>
+            <CardDescription>
+              {user.email} · Member since {new Date(user.created_at).toLocaleDateString()}
+            </CardDescription>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          {stats.map(stat => (
+            <div key={stat.label} className="p-3 bg-muted/30 rounded-lg">
+              <div className="text-2xl font-bold text-foreground">{stat.value}</div>
+              <div className="text-xs text-muted-foreground">{stat.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <p className={`flex items-center text-sm ${sync.className}`}>
+          <sync.icon className="w-4 h-4 mr-2 shrink-0" />
+          {sync.text}
+        </p>
+
+        <Separator />
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="displayName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Display name</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="nickname" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={form.formState.isSubmitting || !form.formState.isDirty}>
+              Save Changes
+            </Button>
+          </form>
+        </Form>
+
+        <Separator />
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button asChild variant="outline" className="flex-1">
+            <Link to="/dashboard">
+              <LayoutDashboard className="w-4 h-4 mr-2" />
+              Go to Dashboard
+            </Link>
+          </Button>
+          <Button variant="outline" className="flex-1" onClick={handleSignOut} disabled={isSigningOut}>
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign Out
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Signing out hides your plans on this device. They'll be back the next time you sign in, including changes that hadn't synced yet.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+const Profile = () => {
+  const { user, isLoading } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-background relative pt-16">
+      <ParticleBackground theme="minimal" />
+
+      <section className="relative py-12 px-6">
+        <div className="max-w-7xl mx-auto">
+          <div className="text-center mb-8">
+            <h1 className="text-4xl md:text-5xl font-bold text-foreground mb-2">
+              {user ? "Your Profile" : "Sign In"}
+            </h1>
+            <p className="text-xl text-muted-foreground">
+              {user
+                ? "Manage your account and travel identity"
+                : "Keep your plans safe and take them to any device"}
+            </p>
+          </div>
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : user ? (
+            <AccountDetails />
+          ) : (
+            <Card className="max-w-md mx-auto">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <User className="w-5 h-5 mr-2" />
+                  Your Account
+                </CardTitle>
+                <CardDescription>
+                  Plans you've already saved on this device move into your account when you first sign in.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="sign-in">
+                  <TabsList className="grid w-full grid-cols-2 mb-6">
+                    <TabsTrigger value="sign-in">Sign In</TabsTrigger>
+                    <TabsTrigger value="sign-up">Create Account</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="sign-in">
+                    <SignInForm />
+                  </TabsContent>
+                  <TabsContent value="sign-up">
+                    <SignUpForm />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Profile;
@@ -0,0 +1,30 @@
+-- Travel plans synced from the app's localStorage, one row per plan per user.
+-- The app keeps working offline; rows are reconciled by updated_at when the user is signed in.
+create table public.plans (
+  id text not null,
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  -- The full SelectedPlan as the app stores it; null once the plan has been deleted
+  data jsonb,
+  updated_at timestamptz not null,
+  -- Tombstone so a deletion on one device reaches the others
+  deleted_at timestamptz,
+  created_at timestamptz not null default now(),
+  primary key (user_id, id)
+);
+
+create index plans_user_id_updated_at_idx on public.plans (user_id, updated_at);
+
+alter table public.plans enable row level security;
+
+create policy "Users can read their own plans"
+  on public.plans for select
+  using (auth.uid() = user_id);
+
+create policy "Users can add their own plans"
+  on public.plans for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their own plans"
+  on public.plans for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);